@@ -1,19 +1,33 @@
 import { 
   translateWithAI,
+  getProviderModel,
   AITranslationRequest
 } from '../services/aiService';
 import { 
   getUserSettings, 
   saveLearningItem, 
   getLearningItems,
-  getPendingSyncItems 
+  getPendingSyncItems,
+  getReviewLog,
+  appendReviewLog,
+  saveReviewResult,
+  removeReviewLogEntry
 } from '../services/storageService';
 import { 
   createLearningItem, 
-  getTodayReviewItems, 
+  buildReviewQueue, 
   getReviewStats,
-  updateItemAfterReview 
+  updateItemAfterReview,
+  createReviewLogEntry,
+  createCramLogEntry,
+  getSiblingsToBury,
+  restoreItemSchedule,
+  applyItemStatus
 } from '../services/reviewEngine';
+import { getNextDayStart } from '../services/dayBoundary';
+import { findDeck, getDeckSettings, normalizeTags } from '../services/decks';
+import { findDuplicateItem } from '../services/lemma';
+import { createEncounter, mergeIntoExistingItem, recordEncounter } from '../services/encounters';
 import { 
   setupMessageListener, 
   MessageResponse 
@@ -25,6 +39,8 @@ import {
 } from '../services/firebaseService';
 import type { 
   ChromeMessage, 
+  ItemStatusAction,
+  LearningItem,
   ReviewResult
 } from '../types';
 
@@ -44,10 +60,7 @@ chrome.runtime.onInstalled.addListener(async () => {
   await initializeServices();
   
   // 设置每日复习提醒
-  chrome.alarms.create('dailyReview', {
-    when: Date.now() + 1000 * 60, // 1分钟后开始
-    periodInMinutes: 60 * 24 // 每24小时重复
-  });
+  await scheduleDailyReviewAlarm();
   
   // 设置同步定时器
   chrome.alarms.create('autoSync', {
@@ -68,9 +81,33 @@ chrome.alarms.onAlarm.addListener((alarm) => {
   }
 });
 
+// 监听设置变化，学习日开始时间改变后重新安排每日提醒
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'local' || !changes.userSettings) return;
+  
+  const oldHour = changes.userSettings.oldValue?.dayStartHour;
+  const newHour = changes.userSettings.newValue?.dayStartHour;
+  if (oldHour !== newHour) {
+    scheduleDailyReviewAlarm();
+    updateBadgeCount();
+  }
+});
+
 // 设置消息监听器
 setupMessageListener(handleMessage);
 
+/**
+ * 安排每日复习提醒，在每个学习日开始时触发
+ */
+async function scheduleDailyReviewAlarm() {
+  const settings = await getUserSettings();
+  
+  chrome.alarms.create('dailyReview', {
+    when: getNextDayStart(Date.now(), settings.dayStartHour),
+    periodInMinutes: 60 * 24 // 每24小时重复
+  });
+}
+
 /**
  * 初始化服务
  */
@@ -116,6 +153,10 @@ async function handleMessage(
         await handleSaveWordRequest(message, sendResponse);
         break;
         
+      case 'checkDuplicate':
+        await handleCheckDuplicateRequest(message, sendResponse);
+        break;
+        
       case 'validateApiKey':
         await handleValidateApiKeyRequest(message, sendResponse);
         break;
@@ -133,6 +174,22 @@ async function handleMessage(
         await handleSubmitReviewRequest(message, sendResponse);
         break;
         
+      case 'generateExamples':
+        await handleGenerateExamplesRequest(message, sendResponse);
+        break;
+        
+      case 'regenerateDetails':
+        await handleRegenerateDetailsRequest(message, sendResponse);
+        break;
+        
+      case 'undoReview':
+        await handleUndoReviewRequest(message, sendResponse);
+        break;
+        
+      case 'updateItemStatus':
+        await handleUpdateItemStatusRequest(message, sendResponse);
+        break;
+        
       case 'syncData':
         await handleSyncDataRequest(sendResponse);
         break;
@@ -231,28 +288,82 @@ async function handleSaveWordRequest(
 ) {
   try {
     const learningItemData = message.data;
+
+    const encounter = createEncounter(
+      learningItemData.context,
+      learningItemData.sourceUrl,
+      learningItemData.sourceTitle
+    );
+
+    const [items, globalSettings] = await Promise.all([
+      getLearningItems(),
+      getUserSettings()
+    ]);
+
+    // 已有相同单词或其他词形时合并：记录新的遇到，句子作为额外的例句，不创建新卡片
+    const mergedItem = mergeIntoExistingItem(
+      learningItemData.word || learningItemData.text,
+      items,
+      encounter,
+      learningItemData.tags,
+      globalSettings.dayStartHour,
+      learningItemData.mergeIntoId
+    );
+    if (mergedItem) {
+      await saveLearningItem(mergedItem);
+      await updateBadgeCount();
+      sendResponse({ success: true, data: { item: mergedItem, merged: true } });
+      return;
+    }
+    if (learningItemData.mergeIntoId) {
+      sendResponse({ 
+        success: false, 
+        error: 'Learning item not found' 
+      });
+      return;
+    }
+
+    const deckId = findDeck(globalSettings, learningItemData.deckId)?.id;
+    const settings = getDeckSettings(globalSettings, deckId);
     
-    // 创建学习项目
+    // 创建学习项目，AI 返回的详细信息连同生成它的提供商和模型一起保存
     const learningItem = createLearningItem(
       learningItemData.word || learningItemData.text,
       learningItemData.translation || '',
-      learningItemData.wordType || learningItemData.type || 'word',
+      learningItemData.type === 'sentence' ? 'sentence' : 'word',
       learningItemData.context || '',
-      'local' // 暂时使用本地用户ID
+      'local', // 暂时使用本地用户ID
+      settings.scheduler,
+      {
+        wordType: learningItemData.wordType || undefined,
+        pronunciation: learningItemData.pronunciation || undefined,
+        explanation: learningItemData.explanation || undefined,
+        examples: learningItemData.examples?.length ? learningItemData.examples : undefined,
+        aiProvider: settings.aiProvider,
+        aiModel: getProviderModel(settings.aiProvider)
+      }
     );
 
     // 添加额外信息
+    const tags = normalizeTags(learningItemData.tags || []);
+    if (tags.length > 0) {
+      learningItem.tags = tags;
+    }
+    if (deckId) {
+      learningItem.deckId = deckId;
+    }
     if (learningItemData.sourceUrl) {
       learningItem.sourceUrl = learningItemData.sourceUrl;
     }
     if (learningItemData.sourceTitle) {
       learningItem.sourceTitle = learningItemData.sourceTitle;
     }
+    learningItem.encounters = [{ ...encounter, encounteredAt: learningItem.createdAt }];
 
     await saveLearningItem(learningItem);
     await updateBadgeCount();
 
-    sendResponse({ success: true, data: learningItem });
+    sendResponse({ success: true, data: { item: learningItem, merged: false } });
   } catch (error) {
     sendResponse({ 
       success: false,
@@ -261,6 +372,173 @@ async function handleSaveWordRequest(
   }
 }
 
+/**
+ * 处理重复检测请求，查找单词本中相同的单词或同一单词的其他词形
+ * 划词查到已有项目时也记录一次遇到
+ */
+async function handleCheckDuplicateRequest(
+  message: ChromeMessage, 
+  sendResponse: (response: MessageResponse) => void
+) {
+  try {
+    const { text, context, sourceUrl, sourceTitle } = message.data;
+    const [items, settings] = await Promise.all([
+      getLearningItems(),
+      getUserSettings()
+    ]);
+    const duplicate = findDuplicateItem(text, items);
+    if (!duplicate) {
+      sendResponse({ success: true, data: null });
+      return;
+    }
+
+    const item = recordEncounter(
+      duplicate.item,
+      createEncounter(context, sourceUrl, sourceTitle),
+      [],
+      settings.dayStartHour
+    );
+    if (item !== duplicate.item) {
+      await saveLearningItem(item);
+      await updateBadgeCount();
+    }
+
+    sendResponse({
+      success: true,
+      data: {
+        itemId: item.id,
+        content: item.content,
+        translation: item.translation,
+        match: duplicate.match,
+        nextReviewAt: item.nextReviewAt,
+        isSuspended: !!item.isSuspended
+      }
+    });
+  } catch (error) {
+    sendResponse({ 
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check duplicates' 
+    });
+  }
+}
+
+/**
+ * 处理生成例句请求
+ * 没有上下文的项目在完形填空时使用 AI 例句，生成后保存到项目上
+ */
+async function handleGenerateExamplesRequest(
+  message: ChromeMessage, 
+  sendResponse: (response: MessageResponse) => void
+) {
+  try {
+    const { itemId } = message.data;
+    const [items, settings] = await Promise.all([
+      getLearningItems(),
+      getUserSettings()
+    ]);
+    const item = items.find(i => i.id === itemId);
+    
+    if (!item) {
+      sendResponse({ 
+        success: false, 
+        error: 'Learning item not found' 
+      });
+      return;
+    }
+
+    const apiKey = settings.apiKeys?.[settings.aiProvider];
+    if (!apiKey) {
+      sendResponse({ 
+        success: false, 
+        error: `API Key not configured for ${settings.aiProvider}` 
+      });
+      return;
+    }
+
+    const translationResult = await translateWithAI(
+      {
+        text: item.content,
+        context: item.context,
+        targetLanguage: settings.language === 'zh' ? 'Chinese' : 'English'
+      },
+      settings.aiProvider,
+      apiKey
+    );
+
+    const updatedItem = { ...item, examples: translationResult.examples || [] };
+    await saveLearningItem(updatedItem);
+
+    sendResponse({ success: true, data: updatedItem });
+  } catch (error) {
+    sendResponse({ 
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate examples' 
+    });
+  }
+}
+
+/**
+ * 处理重新生成 AI 说明请求
+ * 使用当前的 AI 提供商更新词性、音标和释义，保留用户编辑过的翻译和已有的例句
+ */
+async function handleRegenerateDetailsRequest(
+  message: ChromeMessage, 
+  sendResponse: (response: MessageResponse) => void
+) {
+  try {
+    const { itemId } = message.data;
+    const [items, settings] = await Promise.all([
+      getLearningItems(),
+      getUserSettings()
+    ]);
+    const item = items.find(i => i.id === itemId);
+    
+    if (!item) {
+      sendResponse({ 
+        success: false, 
+        error: 'Learning item not found' 
+      });
+      return;
+    }
+
+    const apiKey = settings.apiKeys?.[settings.aiProvider];
+    if (!apiKey) {
+      sendResponse({ 
+        success: false, 
+        error: `API Key not configured for ${settings.aiProvider}` 
+      });
+      return;
+    }
+
+    const translationResult = await translateWithAI(
+      {
+        text: item.content,
+        context: item.context,
+        targetLanguage: settings.language === 'zh' ? 'Chinese' : 'English'
+      },
+      settings.aiProvider,
+      apiKey
+    );
+
+    const updatedItem: LearningItem = {
+      ...item,
+      explanation: translationResult.explanation || item.explanation,
+      wordType: translationResult.wordType || item.wordType,
+      pronunciation: translationResult.pronunciation || item.pronunciation,
+      aiProvider: settings.aiProvider,
+      aiModel: getProviderModel(settings.aiProvider)
+    };
+    await saveLearningItem(updatedItem);
+
+    sendResponse({ success: true, data: updatedItem });
+  } catch (error) {
+    sendResponse({ 
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to regenerate details' 
+    });
+  }
+}
+
 /**
  * 处理 API Key 验证请求
  */
@@ -326,8 +604,7 @@ async function handleGetReviewItemsRequest(
   sendResponse: (response: MessageResponse) => void
 ) {
   try {
-    const items = await getLearningItems();
-    const reviewItems = getTodayReviewItems(items);
+    const reviewItems = await getReviewQueue();
     
     sendResponse({ 
       success: true, 
@@ -352,8 +629,132 @@ async function handleSubmitReviewRequest(
   sendResponse: (response: MessageResponse) => void
 ) {
   try {
-    const { itemId, result } = message.data;
-    const items = await getLearningItems();
+    const { itemId, result, timeTaken, variant = 'forward', reschedule = true } = message.data;
+    const [items, settings] = await Promise.all([
+      getLearningItems(),
+      getUserSettings()
+    ]);
+    const item = items.find(i => i.id === itemId);
+    
+    if (!item) {
+      sendResponse({ 
+        success: false, 
+        error: 'Learning item not found' 
+      });
+      return;
+    }
+
+    // 突击复习默认只记录评分，不改变调度状态
+    if (!reschedule) {
+      const logEntry = createCramLogEntry(item, result as ReviewResult, timeTaken, variant);
+      await appendReviewLog(logEntry);
+      sendResponse({ success: true, data: { item, logEntry } });
+      return;
+    }
+
+    const updatedItem = updateItemAfterReview(item, result as ReviewResult, settings, items, variant);
+    const logEntry = createReviewLogEntry(item, updatedItem, result as ReviewResult, timeTaken, variant);
+
+    // 搁置同一上下文的兄弟项目，避免它们接连出现、互相提示答案
+    const siblings = settings.burySiblings ? getSiblingsToBury(updatedItem, items, settings) : [];
+    if (siblings.length > 0) {
+      logEntry.buriedItemIds = siblings.map(sibling => sibling.id);
+    }
+    const buriedSiblings = siblings.map(sibling => applyItemStatus(sibling, 'bury', settings.dayStartHour));
+
+    await saveReviewResult([updatedItem, ...buriedSiblings], logEntry);
+    await updateBadgeCount();
+
+    sendResponse({ success: true, data: { item: updatedItem, logEntry } });
+  } catch (error) {
+    sendResponse({ 
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to submit review' 
+    });
+  }
+}
+
+/**
+ * 处理撤销复习请求
+ * 只允许撤销某张卡片最近的一次复习，恢复复习前的调度状态并删除对应记录
+ */
+async function handleUndoReviewRequest(
+  message: ChromeMessage, 
+  sendResponse: (response: MessageResponse) => void
+) {
+  try {
+    const { logEntryId, previousItem } = message.data as {
+      logEntryId: string;
+      previousItem: LearningItem;
+    };
+    const [items, reviewLog] = await Promise.all([
+      getLearningItems(),
+      getReviewLog()
+    ]);
+    const item = items.find(i => i.id === previousItem.id);
+    const logEntry = reviewLog.find(entry => entry.id === logEntryId);
+    
+    if (!item) {
+      sendResponse({ 
+        success: false, 
+        error: 'Learning item not found' 
+      });
+      return;
+    }
+
+    if (!logEntry || logEntry.itemId !== item.id) {
+      sendResponse({ 
+        success: false, 
+        error: 'Review log entry not found' 
+      });
+      return;
+    }
+
+    const variant = logEntry.variant ?? 'forward';
+    const cardEntries = reviewLog.filter(entry => 
+      entry.itemId === item.id && (entry.variant ?? 'forward') === variant
+    );
+    if (cardEntries[cardEntries.length - 1].id !== logEntryId) {
+      sendResponse({ 
+        success: false, 
+        error: 'Only the latest review of a card can be undone' 
+      });
+      return;
+    }
+
+    const restoredItem = restoreItemSchedule(item, previousItem, variant);
+    await saveLearningItem(restoredItem);
+
+    // 恢复这次复习搁置的兄弟项目
+    for (const sibling of items.filter(i => logEntry.buriedItemIds?.includes(i.id))) {
+      await saveLearningItem(applyItemStatus(sibling, 'unbury'));
+    }
+
+    await removeReviewLogEntry(logEntryId);
+    await updateBadgeCount();
+
+    sendResponse({ success: true, data: restoredItem });
+  } catch (error) {
+    sendResponse({ 
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to undo review' 
+    });
+  }
+}
+
+/**
+ * 处理暂停 / 搁置学习项目请求
+ */
+async function handleUpdateItemStatusRequest(
+  message: ChromeMessage, 
+  sendResponse: (response: MessageResponse) => void
+) {
+  try {
+    const { itemId, status } = message.data;
+    const [items, settings] = await Promise.all([
+      getLearningItems(),
+      getUserSettings()
+    ]);
     const item = items.find(i => i.id === itemId);
     
     if (!item) {
@@ -364,7 +765,7 @@ async function handleSubmitReviewRequest(
       return;
     }
 
-    const updatedItem = updateItemAfterReview(item, result as ReviewResult);
+    const updatedItem = applyItemStatus(item, status as ItemStatusAction, settings.dayStartHour);
     await saveLearningItem(updatedItem);
     await updateBadgeCount();
 
@@ -372,7 +773,7 @@ async function handleSubmitReviewRequest(
   } catch (error) {
     sendResponse({ 
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to submit review' 
+      error: error instanceof Error ? error.message : 'Failed to update item status' 
     });
   }
 }
@@ -409,8 +810,12 @@ async function handleGetStatsRequest(
   sendResponse: (response: MessageResponse) => void
 ) {
   try {
-    const items = await getLearningItems();
-    const stats = getReviewStats(items);
+    const [items, reviewLog, settings] = await Promise.all([
+      getLearningItems(),
+      getReviewLog(),
+      getUserSettings()
+    ]);
+    const stats = getReviewStats(items, reviewLog, settings.dayStartHour, settings);
     const pendingItems = await getPendingSyncItems();
     
     sendResponse({ 
@@ -429,15 +834,27 @@ async function handleGetStatsRequest(
   }
 }
 
+/**
+ * 按每日上限构建今天的复习队列
+ */
+async function getReviewQueue() {
+  const [items, reviewLog, settings] = await Promise.all([
+    getLearningItems(),
+    getReviewLog(),
+    getUserSettings()
+  ]);
+  
+  return buildReviewQueue(items, reviewLog, settings);
+}
+
 /**
  * 更新插件图标角标
  */
 async function updateBadgeCount() {
   try {
-    const items = await getLearningItems();
-    const todayReviewItems = getTodayReviewItems(items);
+    const reviewQueue = await getReviewQueue();
     
-    const count = todayReviewItems.length;
+    const count = reviewQueue.length;
     
     if (count > 0) {
       chrome.action.setBadgeText({ text: count.toString() });
@@ -455,20 +872,18 @@ async function updateBadgeCount() {
  */
 async function checkDailyReview() {
   try {
-    const [items, settings] = await Promise.all([
-      getLearningItems(),
+    const [reviewQueue, settings] = await Promise.all([
+      getReviewQueue(),
       getUserSettings()
     ]);
     
-    const todayReviewItems = getTodayReviewItems(items);
-    
-    if (todayReviewItems.length > 0 && settings.enableNotifications) {
+    if (reviewQueue.length > 0 && settings.enableNotifications) {
       // 显示通知
       chrome.notifications.create({
         type: 'basic',
         iconUrl: 'icons/icon48.png',
         title: 'LexiMemo AI',
-        message: `You have ${todayReviewItems.length} words to review today!`
+        message: `You have ${reviewQueue.length} cards to review today!`
       });
     }
     
@@ -6,6 +6,7 @@
 // 直接包含消息服务功能，避免 ES6 模块导入问题
 
 import { StreamTranslationChunk, AITranslationResponse } from '../types';
+import type { DuplicateCheckResult, SaveWordResult } from '../services/messageService';
 
 // 消息类型定义
 interface ChromeMessage {
@@ -86,14 +87,33 @@ async function saveWord(
   text: string,
   translation: string,
   type: 'word' | 'sentence',
-  context?: string
+  context?: string,
+  details: {
+    wordType?: string;
+    pronunciation?: string;
+    explanation?: string;
+    examples?: string[];
+    tags?: string[];
+    mergeIntoId?: string;
+  } = {}
 ) {
+  // 记录来源页面，同一单词在不同页面遇到时分别保存
   const message = {
     action: 'saveWord',
-    data: { text, translation, type, context }
+    data: { text, translation, type, context, sourceUrl: location.href, sourceTitle: document.title, ...details }
   };
   
-  return sendMessageToBackground(message);
+  return sendMessageToBackground<SaveWordResult>(message);
+}
+
+// 检查单词本中是否已有相同单词或其他词形，已有时记录这次遇到的句子和来源页面
+async function checkDuplicate(text: string, context?: string) {
+  const message = {
+    action: 'checkDuplicate',
+    data: { text, context, sourceUrl: location.href, sourceTitle: document.title }
+  };
+  
+  return sendMessageToBackground<DuplicateCheckResult | null>(message);
 }
 
 // 翻译卡片和图标相关变量
@@ -103,6 +123,7 @@ let isCardVisible = false;
 let selectedText = '';
 let selectionRange: Range | null = null;
 let currentTranslationData: any = null;
+let currentDuplicate: DuplicateCheckResult | null = null;
 let ignoreNextClick = false;
 
 // 请求跟踪变量
@@ -434,6 +455,7 @@ async function showTranslationCard() {
     updateCardContent('正在翻译...', true);
     translationCard.style.display = 'block';
     isCardVisible = true;
+    updateDuplicateNotice(selectedText);
     
     // 设置超时机制
     translationTimeout = window.setTimeout(() => {
@@ -695,6 +717,11 @@ function createTranslationCard() {
     <div class="ai-card-content">
       <div class="ai-original-text"></div>
       <div class="ai-translation-text"></div>
+      <div class="ai-duplicate-notice">
+        <span class="ai-duplicate-text"></span>
+        <button class="ai-merge-btn" title="记录这次遇到，并把当前句子作为例句合并到已有单词，不创建新卡片">合并为例句</button>
+      </div>
+      <input class="ai-tags-input" type="text" placeholder="标签（可选，用逗号分隔）" />
       <div class="ai-card-actions">
         <button class="ai-save-btn" title="保存到单词本">📚 保存</button>
         <button class="ai-speak-btn" title="朗读">🔊</button>
@@ -978,6 +1005,52 @@ function createTranslationCard() {
       line-height: 1.4;
     }
     
+    .ai-duplicate-notice {
+      display: none;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+      margin-top: 12px;
+      padding: 6px 10px;
+      background: #fff8e1;
+      border: 1px solid #ffe082;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #795548;
+    }
+    
+    .ai-merge-btn {
+      flex-shrink: 0;
+      padding: 4px 8px;
+      border: 1px solid #ffb300;
+      border-radius: 4px;
+      background: white;
+      color: #795548;
+      cursor: pointer;
+      font-size: 12px;
+    }
+    
+    .ai-merge-btn:hover:not(:disabled) {
+      background: #ffb300;
+      color: white;
+    }
+    
+    .ai-tags-input {
+      box-sizing: border-box;
+      width: 100%;
+      margin-top: 12px;
+      padding: 6px 10px;
+      border: 1px solid #e0e0e0;
+      border-radius: 6px;
+      font-size: 12px;
+      font-family: inherit;
+      outline: none;
+    }
+    
+    .ai-tags-input:focus {
+      border-color: #667eea;
+    }
+    
     .ai-card-actions {
       display: flex;
       gap: 8px;
@@ -1110,9 +1183,11 @@ function createTranslationCard() {
   const closeBtn = translationCard.querySelector('.ai-card-close');
   const saveBtn = translationCard.querySelector('.ai-save-btn');
   const speakBtn = translationCard.querySelector('.ai-speak-btn');
+  const mergeBtn = translationCard.querySelector('.ai-merge-btn');
   
   closeBtn?.addEventListener('click', hideTranslationCard);
   saveBtn?.addEventListener('click', handleSaveWord);
+  mergeBtn?.addEventListener('click', handleMergeWord);
   speakBtn?.addEventListener('click', handleSpeak);
 }
 
@@ -1226,6 +1301,7 @@ function hideTranslationCard() {
   }
   isCardVisible = false;
   currentTranslationData = null;
+  currentDuplicate = null;
   
   console.log('✅ [hideTranslationCard] 翻译卡片已隐藏，isCardVisible:', isCardVisible);
 }
@@ -1316,17 +1392,26 @@ async function handleSaveWord() {
     }
     
     const context = getTextContext(selectedText);
+    const tags = getInputTags();
     
     const result = await saveWord(
       selectedText,
       currentTranslationData?.translation || '',
       'word',
-      context
+      context,
+      {
+        wordType: currentTranslationData?.wordType,
+        pronunciation: currentTranslationData?.pronunciation,
+        explanation: currentTranslationData?.explanation,
+        examples: currentTranslationData?.examples,
+        tags
+      }
     );
     
     if (result.success) {
       if (saveBtn) {
-        saveBtn.textContent = '✓ 已保存';
+        // 单词本中已有该单词时，句子合并到已有项目
+        saveBtn.textContent = result.data?.merged ? '✓ 已合并' : '✓ 已保存';
         saveBtn.style.background = '#28a745';
         saveBtn.style.color = 'white';
         saveBtn.style.borderColor = '#28a745';
@@ -1364,6 +1449,91 @@ async function handleSaveWord() {
   }
 }
 
+// 读取标签输入框，标签在连续保存时保留，方便给同一篇文章的单词打上相同的标签
+function getInputTags(): string[] {
+  const tagsInput = translationCard?.querySelector('.ai-tags-input') as HTMLInputElement | null;
+  return (tagsInput?.value || '').split(/[,，]/).filter(tag => tag.trim());
+}
+
+// 已有项目的复习时间说明
+function formatDuplicateDue(duplicate: DuplicateCheckResult): string {
+  if (duplicate.isSuspended) {
+    return '已暂停';
+  }
+  const days = Math.ceil((duplicate.nextReviewAt - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 0 ? '今天复习' : `${days} 天后复习`;
+}
+
+// 检查选中的文本是否已在单词本中，显示提示和合并按钮
+async function updateDuplicateNotice(text: string) {
+  currentDuplicate = null;
+  renderDuplicateNotice();
+
+  try {
+    const result = await checkDuplicate(text, getTextContext(text));
+    // 等待期间选择了其他文本时丢弃结果
+    if (text !== selectedText || !isCardVisible) return;
+    currentDuplicate = result.success ? result.data ?? null : null;
+    renderDuplicateNotice();
+  } catch (error) {
+    console.error('Check duplicate error:', error);
+  }
+}
+
+function renderDuplicateNotice() {
+  const notice = translationCard?.querySelector('.ai-duplicate-notice') as HTMLElement | null;
+  const noticeText = notice?.querySelector('.ai-duplicate-text');
+  const mergeBtn = notice?.querySelector('.ai-merge-btn') as HTMLButtonElement | null;
+  if (!notice || !noticeText || !mergeBtn) return;
+
+  if (!currentDuplicate) {
+    notice.style.display = 'none';
+    return;
+  }
+
+  const due = formatDuplicateDue(currentDuplicate);
+  noticeText.textContent = currentDuplicate.match === 'exact'
+    ? `已在单词本中（${due}）`
+    : `单词本中已有相关词形 “${currentDuplicate.content}”（${due}）`;
+  mergeBtn.textContent = '合并为例句';
+  mergeBtn.disabled = false;
+  notice.style.display = 'flex';
+}
+
+// 把当前上下文作为例句合并到已有项目，不创建新卡片
+async function handleMergeWord() {
+  if (!selectedText || !currentDuplicate) return;
+  
+  const mergeBtn = translationCard?.querySelector('.ai-merge-btn') as HTMLButtonElement | null;
+  if (mergeBtn) {
+    mergeBtn.textContent = '合并中...';
+    mergeBtn.disabled = true;
+  }
+  
+  try {
+    const result = await saveWord(
+      selectedText,
+      currentTranslationData?.translation || '',
+      'word',
+      getTextContext(selectedText),
+      { tags: getInputTags(), mergeIntoId: currentDuplicate.itemId }
+    );
+    
+    if (!result.success) {
+      throw new Error(result.error || '合并失败');
+    }
+    if (mergeBtn) {
+      mergeBtn.textContent = '✓ 已合并';
+    }
+  } catch (error) {
+    console.error('Merge word error:', error);
+    if (mergeBtn) {
+      mergeBtn.textContent = '合并失败';
+      mergeBtn.disabled = false;
+    }
+  }
+}
+
 // 朗读单词
 function handleSpeak() {
   console.log('🔊 [handleSpeak] 播放按钮被点击');
@@ -9,6 +9,8 @@ import HomePage from './pages/HomePage';
 import ReviewPage from './pages/ReviewPage';
 import SettingsPage from './pages/SettingsPage';
 import WordListPage from './pages/WordListPage';
+import CustomStudyPage from './pages/CustomStudyPage';
+import ItemDetailPage from './pages/ItemDetailPage';
 import Navigation from './components/Navigation';
 import LoadingOverlay from './components/LoadingOverlay';
 
@@ -73,7 +75,7 @@ const theme = createTheme({
 });
 
 function App() {
-  const { currentPage, isLoading } = useUIStore();
+  const { currentPage, selectedItem, isLoading } = useUIStore();
   const { initializeApp, clearError } = useAppStore();
   const isInitialized = useIsInitialized();
   const error = useAppError();
@@ -99,6 +101,10 @@ function App() {
         return <SettingsPage />;
       case 'wordList':
         return <WordListPage />;
+      case 'customStudy':
+        return <CustomStudyPage />;
+      case 'itemDetail':
+        return <ItemDetailPage key={selectedItem?.id} />;
       default:
         return <HomePage />;
     }
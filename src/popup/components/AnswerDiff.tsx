@@ -0,0 +1,38 @@
+import { Box, Typography } from '@mui/material';
+import { AnswerDiffPart } from '../../services/answerDiff';
+
+interface AnswerDiffProps {
+  diff: AnswerDiffPart[];
+}
+
+/**
+ * 拼写答案的字符级差异：绿色为正确，红色下划线为漏写，删除线为多写
+ */
+const AnswerDiff = ({ diff }: AnswerDiffProps) => {
+  return (
+    <Typography variant="h5" component="div" sx={{ fontFamily: 'monospace', wordBreak: 'break-word' }}>
+      {diff.map((part, index) => (
+        <Box
+          key={index}
+          component="span"
+          sx={{
+            whiteSpace: 'pre-wrap',
+            ...(part.type === 'match' && { color: 'success.main' }),
+            ...(part.type === 'missing' && {
+              color: 'error.main',
+              textDecoration: 'underline'
+            }),
+            ...(part.type === 'extra' && {
+              color: 'text.disabled',
+              textDecoration: 'line-through'
+            })
+          }}
+        >
+          {part.text}
+        </Box>
+      ))}
+    </Typography>
+  );
+};
+
+export default AnswerDiff;
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { parseSteps } from '../stepsInput';
+import { Deck, DeckSettings, SchedulerType, UserSettings } from '../../types';
+
+interface DeckSettingsDialogProps {
+  deck: Deck;
+  globalSettings: UserSettings;
+  onClose: () => void;
+  onSave: (deck: Deck) => void;
+}
+
+const SCHEDULER_LABELS: Record<SchedulerType, string> = {
+  sm2: 'SM-2',
+  fsrs: 'FSRS',
+};
+
+// 留空的输入框沿用全局设置
+const parseLimit = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Math.max(0, parseInt(value) || 0);
+
+const parseOptionalSteps = (value: string): number[] | undefined =>
+  value.trim() === '' ? undefined : parseSteps(value);
+
+/**
+ * 编辑牌组名称以及单独的调度算法、学习步骤和每日上限
+ * 打开新牌组时通过 key 重新挂载以重置输入
+ */
+const DeckSettingsDialog = ({ deck, globalSettings, onClose, onSave }: DeckSettingsDialogProps) => {
+  const [name, setName] = useState(deck.name);
+  const [scheduler, setScheduler] = useState<SchedulerType | ''>(deck.settings.scheduler ?? '');
+  const [learningSteps, setLearningSteps] = useState(deck.settings.learningSteps?.join(' ') ?? '');
+  const [relearningSteps, setRelearningSteps] = useState(deck.settings.relearningSteps?.join(' ') ?? '');
+  const [dailyReviewLimit, setDailyReviewLimit] = useState(deck.settings.dailyReviewLimit?.toString() ?? '');
+  const [dailyNewLimit, setDailyNewLimit] = useState(deck.settings.dailyNewLimit?.toString() ?? '');
+
+  const handleSave = () => {
+    const settings: DeckSettings = {
+      scheduler: scheduler || undefined,
+      learningSteps: parseOptionalSteps(learningSteps),
+      relearningSteps: parseOptionalSteps(relearningSteps),
+      dailyReviewLimit: parseLimit(dailyReviewLimit),
+      dailyNewLimit: parseLimit(dailyNewLimit),
+    };
+    onSave({
+      ...deck,
+      name: name.trim() || deck.name,
+      settings: Object.fromEntries(
+        Object.entries(settings).filter(([, value]) => value !== undefined)
+      ),
+    });
+  };
+
+  return (
+    <Dialog open onClose={onClose} fullWidth>
+      <DialogTitle>Deck Options</DialogTitle>
+      <DialogContent>
+        <TextField
+          fullWidth
+          size="small"
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          sx={{ mt: 1, mb: 2 }}
+        />
+
+        <Typography variant="caption" color="text.secondary" display="block" mb={2}>
+          Leave a field empty to use the global setting.
+        </Typography>
+
+        <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+          <InputLabel>Scheduling Algorithm</InputLabel>
+          <Select
+            value={scheduler}
+            label="Scheduling Algorithm"
+            onChange={(e) => setScheduler(e.target.value as SchedulerType | '')}
+          >
+            <MenuItem value="">Global ({SCHEDULER_LABELS[globalSettings.scheduler]})</MenuItem>
+            <MenuItem value="sm2">SM-2 (classic)</MenuItem>
+            <MenuItem value="fsrs">FSRS (stability / difficulty)</MenuItem>
+          </Select>
+        </FormControl>
+
+        <TextField
+          fullWidth
+          size="small"
+          label="Learning Steps (minutes)"
+          value={learningSteps}
+          onChange={(e) => setLearningSteps(e.target.value)}
+          placeholder={globalSettings.learningSteps.join(' ')}
+          InputLabelProps={{ shrink: true }}
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          fullWidth
+          size="small"
+          label="Relearning Steps (minutes)"
+          value={relearningSteps}
+          onChange={(e) => setRelearningSteps(e.target.value)}
+          placeholder={globalSettings.relearningSteps.join(' ')}
+          InputLabelProps={{ shrink: true }}
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          fullWidth
+          size="small"
+          label="Daily Review Limit"
+          type="number"
+          value={dailyReviewLimit}
+          onChange={(e) => setDailyReviewLimit(e.target.value)}
+          placeholder={globalSettings.dailyReviewLimit.toString()}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ min: 0, max: 200 }}
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          fullWidth
+          size="small"
+          label="Daily New Card Limit"
+          type="number"
+          value={dailyNewLimit}
+          onChange={(e) => setDailyNewLimit(e.target.value)}
+          placeholder={globalSettings.dailyNewLimit.toString()}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ min: 0, max: 200 }}
+          helperText="The global limits still cap reviews across all decks"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DeckSettingsDialog;
@@ -0,0 +1,89 @@
+import { Box, Card, CardContent, Tooltip, Typography } from '@mui/material';
+import { ReviewForecastDay } from '../../types';
+
+interface ForecastChartProps {
+  forecast: ReviewForecastDay[];
+}
+
+const CHART_HEIGHT = 80;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * 未来复习负载柱状图：深色为到期复习，浅色为新卡片
+ */
+const ForecastChart = ({ forecast }: ForecastChartProps) => {
+  if (forecast.length === 0) return null;
+
+  const maxCount = Math.max(1, ...forecast.map(day => day.dueCount + day.newCount));
+  const peak = forecast.reduce((busiest, day) =>
+    day.dueCount + day.newCount > busiest.dueCount + busiest.newCount ? day : busiest
+  );
+  const nextWeek = forecast.slice(0, 7);
+  const weekReviews = nextWeek.reduce((sum, day) => sum + day.dueCount + day.newCount, 0);
+  const retained = forecast.filter(day => day.expectedRetention > 0);
+
+  return (
+    <Card sx={{ mb: 2 }}>
+      <CardContent>
+        <Typography variant="subtitle1" gutterBottom>
+          {forecast.length}-Day Forecast
+        </Typography>
+
+        <Box display="flex" alignItems="flex-end" gap="2px" height={CHART_HEIGHT}>
+          {forecast.map(day => (
+            <Tooltip
+              key={day.date}
+              title={`${day.date}: ${day.dueCount} reviews, ${day.newCount} new` +
+                (day.expectedRetention > 0 ? `, retention ${formatPercent(day.expectedRetention)}` : '')}
+              arrow
+            >
+              <Box
+                flex={1}
+                height="100%"
+                display="flex"
+                flexDirection="column"
+                justifyContent="flex-end"
+                sx={{ cursor: 'default' }}
+              >
+                <Box
+                  sx={{
+                    height: `${(day.newCount / maxCount) * 100}%`,
+                    bgcolor: 'secondary.light',
+                    borderRadius: day.dueCount === 0 ? '2px 2px 0 0' : 0
+                  }}
+                />
+                <Box
+                  sx={{
+                    height: `${(day.dueCount / maxCount) * 100}%`,
+                    bgcolor: 'primary.main',
+                    borderRadius: day.newCount === 0 ? '2px 2px 0 0' : 0
+                  }}
+                />
+              </Box>
+            </Tooltip>
+          ))}
+        </Box>
+
+        <Box display="flex" justifyContent="space-between" mt={0.5}>
+          <Typography variant="caption" color="text.secondary">Today</Typography>
+          <Typography variant="caption" color="text.secondary">
+            {forecast[forecast.length - 1].date}
+          </Typography>
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Next 7 days: {weekReviews} cards · Peak {peak.dueCount + peak.newCount} on {peak.date}
+        </Typography>
+        {retained.length > 0 && (
+          <Typography variant="body2" color="text.secondary">
+            Expected retention: {formatPercent(retained[0].expectedRetention)} →{' '}
+            {formatPercent(retained[retained.length - 1].expectedRetention)}
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ForecastChart;
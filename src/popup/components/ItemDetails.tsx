@@ -0,0 +1,96 @@
+import { Box, Chip, Link, SxProps, Theme, Typography } from '@mui/material';
+import { getItemEncounters } from '../../services/encounters';
+import { LearningItem } from '../../types';
+
+interface ItemDetailsProps {
+  item: LearningItem;
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * 保存时记录的 AI 详细信息：音标、词性、说明、例句和生成它们的模型，
+ * 以及用户的笔记、多次遇到时的句子和来源
+ * 旧项目没有这些字段时不显示
+ */
+const ItemDetails = ({ item, sx }: ItemDetailsProps) => {
+  const examples = item.examples || [];
+  // 只遇到过一次时与上下文相同，不重复显示
+  const encounters = getItemEncounters(item);
+  const showEncounters = encounters.length > 1;
+  if (!item.pronunciation && !item.wordType && !item.explanation && examples.length === 0 && !item.notes && !showEncounters) {
+    return null;
+  }
+
+  return (
+    <Box textAlign="left" sx={sx}>
+      {(item.pronunciation || item.wordType) && (
+        <Box display="flex" alignItems="center" gap={1} mb={0.5}>
+          {item.pronunciation && (
+            <Typography variant="body2" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+              {item.pronunciation}
+            </Typography>
+          )}
+          {item.wordType && (
+            <Chip label={item.wordType} size="small" variant="outlined" />
+          )}
+        </Box>
+      )}
+
+      {item.explanation && (
+        <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', mb: 0.5 }}>
+          {item.explanation}
+        </Typography>
+      )}
+
+      {examples.length > 0 && (
+        <Box component="ul" sx={{ pl: 2, my: 0.5 }}>
+          {examples.map((example, index) => (
+            <Typography key={index} component="li" variant="body2" color="text.secondary">
+              {example}
+            </Typography>
+          ))}
+        </Box>
+      )}
+
+      {item.notes && (
+        <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', mb: 0.5, fontStyle: 'italic' }}>
+          Note: {item.notes}
+        </Typography>
+      )}
+
+      {showEncounters && (
+        <Box mb={0.5}>
+          <Typography variant="caption" color="text.secondary">
+            Seen {encounters.length} times
+          </Typography>
+          <Box component="ul" sx={{ pl: 2, my: 0.5 }}>
+            {encounters.map((encounter, index) => (
+              <Typography key={index} component="li" variant="caption" color="text.secondary" display="list-item">
+                {encounter.context && `"${encounter.context}" `}
+                {encounter.sourceUrl && (
+                  <Link
+                    href={encounter.sourceUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    {encounter.sourceTitle || encounter.sourceUrl}
+                  </Link>
+                )}
+                {' · '}{new Date(encounter.encounteredAt).toLocaleDateString()}
+              </Typography>
+            ))}
+          </Box>
+        </Box>
+      )}
+
+      {item.aiProvider && (
+        <Typography variant="caption" color="text.disabled">
+          Generated by {item.aiModel ? `${item.aiModel} (${item.aiProvider})` : item.aiProvider}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default ItemDetails;
@@ -0,0 +1,117 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Box, Button, Chip, Typography } from '@mui/material';
+import {
+  ReconstructionCheck,
+  SentenceToken,
+  checkReconstruction,
+  shuffleTokens,
+  tokenizeSentence,
+} from '../../services/sentenceDrill';
+
+interface SentenceDrillProps {
+  sentence: string;
+  result: ReconstructionCheck | null;
+  onCheck: (result: ReconstructionCheck) => void;
+}
+
+/**
+ * 句子重组：点击或按数字键按顺序选择打乱的词语，Backspace 撤回上一个词语
+ * 检查后绿色为位置正确，红色为放错位置
+ * 换句子时需要通过 key 重新挂载
+ */
+const SentenceDrill = ({ sentence, result, onCheck }: SentenceDrillProps) => {
+  const expected = useMemo(() => tokenizeSentence(sentence), [sentence]);
+  const [tokens] = useState(() => shuffleTokens(expected));
+  const [placed, setPlaced] = useState<SentenceToken[]>([]);
+
+  const remaining = tokens.filter(token => !placed.includes(token));
+
+  const handlePick = (token: SentenceToken) => {
+    if (result) return;
+    setPlaced(prev => [...prev, token]);
+  };
+
+  const handleRemove = (token: SentenceToken) => {
+    if (result) return;
+    setPlaced(prev => prev.filter(other => other !== token));
+  };
+
+  const handleCheck = () => {
+    if (result || remaining.length > 0) return;
+    onCheck(checkReconstruction(placed.map(token => token.text), expected));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (result || event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const token = remaining[Number(event.key) - 1];
+      if (token) {
+        handlePick(token);
+      } else if (event.key === 'Backspace' && placed.length > 0) {
+        event.preventDefault();
+        handleRemove(placed[placed.length - 1]);
+      } else if (event.key === 'Enter') {
+        handleCheck();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <Box textAlign="center" mb={3}>
+      {/* 已选择的词语，点击放回 */}
+      <Box
+        display="flex"
+        flexWrap="wrap"
+        justifyContent="center"
+        gap={0.5}
+        sx={{ minHeight: 40, p: 1, mb: 2, border: 1, borderStyle: 'dashed', borderColor: 'divider', borderRadius: 1 }}
+      >
+        {placed.map((token, index) => (
+          <Chip
+            key={token.id}
+            label={token.text}
+            onClick={() => handleRemove(token)}
+            color={result ? (result.misplaced[index] ? 'error' : 'success') : 'primary'}
+            variant={result ? 'filled' : 'outlined'}
+          />
+        ))}
+      </Box>
+
+      {/* 待选择的词语 */}
+      {remaining.length > 0 && (
+        <Box display="flex" flexWrap="wrap" justifyContent="center" gap={0.5} mb={2}>
+          {remaining.map((token, index) => (
+            <Chip
+              key={token.id}
+              label={index < 9 ? `${index + 1} · ${token.text}` : token.text}
+              onClick={() => handlePick(token)}
+              variant="outlined"
+            />
+          ))}
+        </Box>
+      )}
+
+      {result ? (
+        result.errors > 0 && (
+          <Typography variant="body2" color="text.secondary">
+            Answer: {sentence}
+          </Typography>
+        )
+      ) : (
+        <Button
+          variant="contained"
+          onClick={handleCheck}
+          disabled={remaining.length > 0}
+        >
+          Check (Enter)
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default SentenceDrill;
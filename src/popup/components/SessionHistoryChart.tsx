@@ -0,0 +1,80 @@
+import { Box, Card, CardContent, Tooltip, Typography } from '@mui/material';
+import { ReviewSessionDay } from '../../types';
+
+interface SessionHistoryChartProps {
+  history: ReviewSessionDay[];
+}
+
+const CHART_HEIGHT = 60;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatMinutes = (ms: number) => `${Math.round(ms / 60000)} min`;
+
+/**
+ * 最近每天的复习会话柱状图：高度为评分次数，颜色深浅表示正确率
+ */
+const SessionHistoryChart = ({ history }: SessionHistoryChartProps) => {
+  const activeDays = history.filter(day => day.sessionCount > 0);
+  if (activeDays.length === 0) return null;
+
+  const maxCount = Math.max(1, ...history.map(day => day.reviewCount));
+  const totals = activeDays.reduce(
+    (sum, day) => ({
+      sessions: sum.sessions + day.sessionCount,
+      reviews: sum.reviews + day.reviewCount,
+      correct: sum.correct + day.correctCount,
+      time: sum.time + day.totalTime
+    }),
+    { sessions: 0, reviews: 0, correct: 0, time: 0 }
+  );
+
+  return (
+    <Card sx={{ mb: 2 }}>
+      <CardContent>
+        <Typography variant="subtitle1" gutterBottom>
+          Last {history.length} Days
+        </Typography>
+
+        <Box display="flex" alignItems="flex-end" gap="2px" height={CHART_HEIGHT}>
+          {history.map(day => {
+            const accuracy = day.reviewCount > 0 ? day.correctCount / day.reviewCount : 0;
+            return (
+              <Tooltip
+                key={day.date}
+                title={day.sessionCount > 0
+                  ? `${day.date}: ${day.sessionCount} sessions, ${day.reviewCount} ratings, ` +
+                    `${formatPercent(accuracy)} correct, ${formatMinutes(day.totalTime)}`
+                  : `${day.date}: no reviews`}
+                arrow
+              >
+                <Box flex={1} height="100%" display="flex" alignItems="flex-end" sx={{ cursor: 'default' }}>
+                  <Box
+                    width="100%"
+                    sx={{
+                      height: `${(day.reviewCount / maxCount) * 100}%`,
+                      bgcolor: 'success.main',
+                      opacity: 0.3 + accuracy * 0.7,
+                      borderRadius: '2px 2px 0 0'
+                    }}
+                  />
+                </Box>
+              </Tooltip>
+            );
+          })}
+        </Box>
+
+        <Box display="flex" justifyContent="space-between" mt={0.5}>
+          <Typography variant="caption" color="text.secondary">{history[0].date}</Typography>
+          <Typography variant="caption" color="text.secondary">Today</Typography>
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          {totals.sessions} sessions · {totals.reviews} ratings · {formatPercent(totals.correct / Math.max(1, totals.reviews))} correct · {formatMinutes(totals.time)}
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SessionHistoryChart;
@@ -0,0 +1,137 @@
+import { Box, Button, Card, CardContent, Grid, Tooltip, Typography } from '@mui/material';
+import { Replay } from '@mui/icons-material';
+import { LearningItem, ReviewSession } from '../../types';
+
+interface SessionSummaryProps {
+  session: ReviewSession;
+  hardestItems: LearningItem[];
+  failedCount: number;
+  onRestudy: () => void;
+  onDone: () => void;
+}
+
+// 评分分布的颜色和名称，依次对应 0 - 5 分
+const RATINGS = [
+  { label: 'Forgot', color: 'error.main' },
+  { label: 'Wrong', color: 'error.light' },
+  { label: 'Almost', color: 'warning.main' },
+  { label: 'Hard', color: 'warning.light' },
+  { label: 'Good', color: 'success.main' },
+  { label: 'Easy', color: 'primary.main' },
+];
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+/**
+ * 复习会话总结：数量、正确率、用时、新旧卡片、评分分布和最困难的项目
+ */
+const SessionSummary = ({ session, hardestItems, failedCount, onRestudy, onDone }: SessionSummaryProps) => {
+  const accuracy = session.reviewCount > 0 ? session.correctCount / session.reviewCount : 0;
+  const maxRating = Math.max(1, ...session.ratingCounts);
+
+  const statTiles = [
+    { label: 'Cards', value: session.cardCount },
+    { label: 'Accuracy', value: `${Math.round(accuracy * 100)}%` },
+    { label: 'Avg time', value: formatSeconds(session.totalTime / Math.max(1, session.reviewCount)) },
+    { label: 'Duration', value: formatDuration(session.endedAt - session.startedAt) },
+  ];
+
+  return (
+    <Box p={2} sx={{ height: '100%', overflow: 'auto' }}>
+      <Box textAlign="center" mb={2}>
+        <Typography variant="h6">
+          🎉 Session complete
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {session.reviewCount} ratings · {session.newCount} new · {session.cardCount - session.newCount} review
+        </Typography>
+      </Box>
+
+      <Grid container spacing={1} mb={2}>
+        {statTiles.map(({ label, value }) => (
+          <Grid item xs={3} key={label}>
+            <Card variant="outlined">
+              <Box p={1} textAlign="center">
+                <Typography variant="subtitle1">{value}</Typography>
+                <Typography variant="caption" color="text.secondary">{label}</Typography>
+              </Box>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* 评分分布 */}
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <Typography variant="subtitle2" gutterBottom>
+            Ratings
+          </Typography>
+          {RATINGS.map(({ label, color }, quality) => (
+            <Box key={label} display="flex" alignItems="center" gap={1} mb={0.5}>
+              <Typography variant="caption" sx={{ width: 48 }}>
+                {label}
+              </Typography>
+              <Tooltip title={`${session.ratingCounts[quality]} × ${label}`} arrow>
+                <Box flex={1} height={8} sx={{ bgcolor: 'action.hover', borderRadius: 1 }}>
+                  <Box
+                    height="100%"
+                    sx={{
+                      width: `${(session.ratingCounts[quality] / maxRating) * 100}%`,
+                      bgcolor: color,
+                      borderRadius: 1
+                    }}
+                  />
+                </Box>
+              </Tooltip>
+              <Typography variant="caption" color="text.secondary" sx={{ width: 24, textAlign: 'right' }}>
+                {session.ratingCounts[quality]}
+              </Typography>
+            </Box>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* 最困难的项目 */}
+      {hardestItems.length > 0 && (
+        <Card sx={{ mb: 2 }}>
+          <CardContent>
+            <Typography variant="subtitle2" gutterBottom>
+              Hardest items
+            </Typography>
+            {hardestItems.map(item => (
+              <Typography key={item.id} variant="body2" noWrap>
+                <strong>{item.content}</strong>
+                <Typography component="span" variant="body2" color="text.secondary">
+                  {' '}— {item.translation}
+                </Typography>
+              </Typography>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Box display="flex" gap={1}>
+        <Button fullWidth variant="outlined" onClick={onDone}>
+          Back to Home
+        </Button>
+        <Button
+          fullWidth
+          variant="contained"
+          startIcon={<Replay />}
+          onClick={onRestudy}
+          disabled={failedCount === 0}
+        >
+          Re-study {failedCount} failed
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default SessionSummary;
@@ -0,0 +1,37 @@
+import { Box, SxProps, Theme } from '@mui/material';
+
+interface ShortcutHintProps {
+  shortcut: string;
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * 按钮上的快捷键提示，未设置快捷键时不显示
+ */
+const ShortcutHint = ({ shortcut, sx }: ShortcutHintProps) => {
+  if (!shortcut) return null;
+
+  return (
+    <Box
+      component="kbd"
+      sx={[
+        {
+          ml: 0.75,
+          px: 0.5,
+          fontSize: 11,
+          lineHeight: 1.5,
+          fontFamily: 'monospace',
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 0.5,
+          opacity: 0.8
+        },
+        ...(Array.isArray(sx) ? sx : [sx])
+      ]}
+    >
+      {shortcut}
+    </Box>
+  );
+};
+
+export default ShortcutHint;
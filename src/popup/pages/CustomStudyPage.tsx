@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  FormControlLabel,
+  TextField,
+  IconButton,
+} from '@mui/material';
+import { ArrowBack, Bolt } from '@mui/icons-material';
+import { getLearningItems, getUserSettings } from '../../services/storageService';
+import { buildCramQueue, filterStudyItems, getStudyFilterOptions } from '../../services/customStudy';
+import { getReviewCards } from '../../services/reviewEngine';
+import { useUIStore } from '../../stores/uiStore';
+import { CustomStudyFilter } from '../../types';
+
+// 添加时间的选项（学习日）
+const ADDED_WITHIN_OPTIONS = [
+  { value: 0, label: 'Any time' },
+  { value: 1, label: 'Today' },
+  { value: 7, label: 'Last 7 days' },
+  { value: 30, label: 'Last 30 days' },
+];
+
+const DEFAULT_CARD_LIMIT = 50;
+
+const CustomStudyPage = () => {
+  const { setCurrentPage, setReviewQueue, setCramOptions } = useUIStore();
+  const [filter, setFilter] = useState<CustomStudyFilter>({});
+  const [cardLimit, setCardLimit] = useState(DEFAULT_CARD_LIMIT);
+  const [reschedule, setReschedule] = useState(false);
+
+  const { data: learningItems = [] } = useQuery({
+    queryKey: ['learningItems'],
+    queryFn: getLearningItems,
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['userSettings'],
+    queryFn: getUserSettings,
+  });
+
+  const { tags, sources } = getStudyFilterOptions(learningItems);
+  const matchedItems = filterStudyItems(learningItems, filter, settings?.dayStartHour);
+  const cardCount = Math.min(cardLimit, getReviewCards(matchedItems, settings).length);
+
+  const updateFilter = (changes: Partial<CustomStudyFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleStart = () => {
+    const queue = buildCramQueue(learningItems, filter, settings, settings?.dayStartHour, cardLimit);
+    if (queue.length === 0) return;
+
+    setCramOptions({ reschedule });
+    setReviewQueue(queue);
+    setCurrentPage('review');
+  };
+
+  return (
+    <Box p={2} sx={{ height: '100%', overflow: 'auto' }}>
+      <Box display="flex" alignItems="center" gap={1} mb={2}>
+        <IconButton onClick={() => setCurrentPage('home')} size="small">
+          <ArrowBack />
+        </IconButton>
+        <Typography variant="h6">
+          Custom Study
+        </Typography>
+      </Box>
+
+      {/* 筛选条件 */}
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Cram any words, due or not. Pick the ones you need below.
+          </Typography>
+
+          {settings && settings.decks.length > 0 && (
+            <FormControl fullWidth size="small" sx={{ mt: 1, mb: 2 }}>
+              <InputLabel>Deck</InputLabel>
+              <Select
+                value={filter.deckId ?? ''}
+                label="Deck"
+                onChange={(e) => updateFilter({ deckId: e.target.value || undefined })}
+              >
+                <MenuItem value="">All decks</MenuItem>
+                {settings.decks.map(deck => (
+                  <MenuItem key={deck.id} value={deck.id}>{deck.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
+          <FormControl fullWidth size="small" sx={{ mt: 1, mb: 2 }}>
+            <InputLabel>Source Page</InputLabel>
+            <Select
+              value={filter.sourceUrl ?? ''}
+              label="Source Page"
+              onChange={(e) => updateFilter({ sourceUrl: e.target.value || undefined })}
+            >
+              <MenuItem value="">All pages</MenuItem>
+              {sources.map(source => (
+                <MenuItem key={source.url} value={source.url}>
+                  <Typography variant="body2" noWrap sx={{ maxWidth: 300 }}>
+                    {source.title} ({source.count})
+                  </Typography>
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+            <InputLabel>Tag</InputLabel>
+            <Select
+              value={filter.tag ?? ''}
+              label="Tag"
+              onChange={(e) => updateFilter({ tag: e.target.value || undefined })}
+            >
+              <MenuItem value="">All tags</MenuItem>
+              {tags.map(tag => (
+                <MenuItem key={tag} value={tag}>{tag}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <Box display="flex" gap={1} mb={2}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Added</InputLabel>
+              <Select
+                value={filter.addedWithinDays ?? 0}
+                label="Added"
+                onChange={(e) => updateFilter({ addedWithinDays: Number(e.target.value) || undefined })}
+              >
+                {ADDED_WITHIN_OPTIONS.map(({ value, label }) => (
+                  <MenuItem key={value} value={value}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth size="small">
+              <InputLabel>Type</InputLabel>
+              <Select
+                value={filter.type ?? ''}
+                label="Type"
+                onChange={(e) => updateFilter({ type: (e.target.value || undefined) as CustomStudyFilter['type'] })}
+              >
+                <MenuItem value="">Words & sentences</MenuItem>
+                <MenuItem value="word">Words</MenuItem>
+                <MenuItem value="sentence">Sentences</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={!!filter.leechOnly}
+                onChange={(e) => updateFilter({ leechOnly: e.target.checked || undefined })}
+              />
+            }
+            label="Only leeches"
+          />
+
+          <TextField
+            fullWidth
+            size="small"
+            label="Maximum Cards"
+            type="number"
+            value={cardLimit}
+            onChange={(e) => setCardLimit(parseInt(e.target.value) || DEFAULT_CARD_LIMIT)}
+            inputProps={{ min: 1, max: 500 }}
+            sx={{ mt: 1 }}
+          />
+        </CardContent>
+      </Card>
+
+      {/* 调度选项 */}
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={reschedule}
+                onChange={(e) => setReschedule(e.target.checked)}
+              />
+            }
+            label="Update schedules with these ratings"
+          />
+          <Typography variant="caption" color="text.secondary" display="block">
+            {reschedule
+              ? 'Ratings change intervals and next review dates like a normal review.'
+              : 'Ratings are logged, but intervals and next review dates stay as they are.'}
+          </Typography>
+        </CardContent>
+      </Card>
+
+      <Button
+        fullWidth
+        variant="contained"
+        startIcon={<Bolt />}
+        onClick={handleStart}
+        disabled={cardCount === 0}
+      >
+        {cardCount > 0 ? `Cram ${cardCount} cards` : 'No matching cards'}
+      </Button>
+    </Box>
+  );
+};
+
+export default CustomStudyPage;
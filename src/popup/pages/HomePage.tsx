@@ -8,14 +8,31 @@ import {
   Button,
   LinearProgress,
   Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from '@mui/material';
 import { School, TrendingUp, Today, EmojiEvents } from '@mui/icons-material';
-import { getLearningItems } from '../../services/storageService';
-import { getTodayReviewItems, getReviewStats, calculateProgress, getStudyStreak } from '../../services/reviewEngine';
+import { getLearningItems, getReviewLog, getReviewSessions, getUserSettings } from '../../services/storageService';
+import {
+  buildReviewQueue,
+  getReviewStats,
+  getReviewForecast,
+  getSessionHistory,
+  calculateProgress,
+  getStudyStreak
+} from '../../services/reviewEngine';
+import { filterItemsByDeck, findDeck, getDeckSettings } from '../../services/decks';
 import { useUIStore } from '../../stores/uiStore';
+import ForecastChart from '../components/ForecastChart';
+import SessionHistoryChart from '../components/SessionHistoryChart';
+
+const FORECAST_DAYS = 30;
+const HISTORY_DAYS = 14;
 
 const HomePage = () => {
-  const { setCurrentPage, setReviewQueue } = useUIStore();
+  const { setCurrentPage, setReviewQueue, setCramOptions, currentDeckId, setCurrentDeckId } = useUIStore();
 
   // 获取学习数据
   const { data: learningItems = [], isLoading } = useQuery({
@@ -23,12 +40,41 @@ const HomePage = () => {
     queryFn: getLearningItems,
   });
 
-  const stats = getReviewStats(learningItems);
-  const progress = calculateProgress(learningItems);
-  const streak = getStudyStreak(learningItems);
-  const todayReviewItems = getTodayReviewItems(learningItems);
+  // 获取复习记录
+  const { data: reviewLog = [] } = useQuery({
+    queryKey: ['reviewLog'],
+    queryFn: getReviewLog,
+  });
+
+  // 获取复习会话统计
+  const { data: reviewSessions = [] } = useQuery({
+    queryKey: ['reviewSessions'],
+    queryFn: getReviewSessions,
+  });
+
+  // 获取用户设置（每日上限）
+  const { data: settings } = useQuery({
+    queryKey: ['userSettings'],
+    queryFn: getUserSettings,
+  });
+
+  // 选中牌组时统计、复习队列和预测只包含该牌组，牌组被删除后回到全部
+  const deckId = settings ? findDeck(settings, currentDeckId ?? undefined)?.id : undefined;
+  const deckItems = filterItemsByDeck(learningItems, deckId);
+  const deckItemIds = new Set(deckItems.map(item => item.id));
+  const deckLog = deckId ? reviewLog.filter(entry => deckItemIds.has(entry.itemId)) : reviewLog;
+
+  const stats = getReviewStats(deckItems, deckLog, settings?.dayStartHour, settings);
+  const progress = calculateProgress(deckItems);
+  const streak = getStudyStreak(reviewLog, settings?.dayStartHour);
+  const todayReviewItems = settings ? buildReviewQueue(learningItems, reviewLog, settings, deckId) : [];
+  const forecast = settings && deckItems.length > 0
+    ? getReviewForecast(deckItems, deckLog, getDeckSettings(settings, deckId), FORECAST_DAYS)
+    : [];
+  const sessionHistory = getSessionHistory(reviewSessions, HISTORY_DAYS, settings?.dayStartHour);
 
   const handleStartReview = () => {
+    setCramOptions(null);
     setReviewQueue(todayReviewItems);
     setCurrentPage('review');
   };
@@ -56,17 +102,36 @@ const HomePage = () => {
         </Typography>
       </Box>
 
+      {/* 牌组选择 */}
+      {settings && settings.decks.length > 0 && (
+        <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+          <InputLabel>Deck</InputLabel>
+          <Select
+            value={deckId ?? ''}
+            label="Deck"
+            onChange={(e) => setCurrentDeckId(e.target.value || null)}
+          >
+            <MenuItem value="">All decks</MenuItem>
+            {settings.decks.map(deck => (
+              <MenuItem key={deck.id} value={deck.id}>{deck.name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
       {/* 今日复习卡片 */}
-      {stats.pendingReviews > 0 && (
+      {todayReviewItems.length > 0 && (
         <Card sx={{ mb: 2, bgcolor: 'primary.main', color: 'white' }}>
           <CardContent>
             <Box display="flex" alignItems="center" justifyContent="space-between">
               <Box>
                 <Typography variant="h6">
-                  {stats.pendingReviews} words to review
+                  {todayReviewItems.length} cards to review
                 </Typography>
                 <Typography variant="body2" sx={{ opacity: 0.9 }}>
-                  Keep your learning streak going!
+                  {stats.pendingReviews > todayReviewItems.length
+                    ? `${stats.pendingReviews - todayReviewItems.length} more held back by daily limits`
+                    : 'Keep your learning streak going!'}
                 </Typography>
               </Box>
               <Button
@@ -150,6 +215,12 @@ const HomePage = () => {
         </CardContent>
       </Card>
 
+      {/* 最近的复习会话 */}
+      <SessionHistoryChart history={sessionHistory} />
+
+      {/* 复习负载预测 */}
+      <ForecastChart forecast={forecast} />
+
       {/* 快速操作 */}
       <Card>
         <CardContent>
@@ -163,6 +234,12 @@ const HomePage = () => {
               clickable
               variant="outlined"
             />
+            <Chip
+              label="Custom Study"
+              onClick={() => setCurrentPage('customStudy')}
+              clickable
+              variant="outlined"
+            />
             <Chip
               label="Settings"
               onClick={() => setCurrentPage('settings')}
@@ -0,0 +1,393 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Button,
+  TextField,
+  IconButton,
+  Chip,
+  Alert,
+  Divider,
+} from '@mui/material';
+import { ArrowBack, AutoAwesome, Replay, Event } from '@mui/icons-material';
+import {
+  getLearningItems,
+  getReviewLog,
+  getUserSettings,
+  saveLearningItem
+} from '../../services/storageService';
+import { regenerateDetails } from '../../services/messageService';
+import {
+  getCardSchedule,
+  getItemVariants,
+  rescheduleItem,
+  resetItemSchedule
+} from '../../services/reviewEngine';
+import { getDeckSettings, parseTags } from '../../services/decks';
+import { setItemContext } from '../../services/encounters';
+import { useUIStore } from '../../stores/uiStore';
+import ItemDetails from '../components/ItemDetails';
+import { CardVariant, LearningItem } from '../../types';
+
+// 评分名称，依次对应 0 - 5 分
+const RATING_LABELS = ['Forgot', 'Wrong', 'Almost', 'Hard', 'Good', 'Easy'];
+
+const VARIANT_LABELS: Record<CardVariant, string> = {
+  forward: 'Forward',
+  reverse: 'Reverse',
+  dictation: 'Dictation',
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * 学习项目详情：编辑内容、翻译、上下文、笔记和标签，
+ * 查看各卡片的调度状态和完整复习记录，重置或手动安排复习，重新生成 AI 说明
+ * 修改通过 storageService 保存并加入待同步队列
+ */
+const ItemDetailPage = () => {
+  const { selectedItem, setCurrentPage, setSelectedItem } = useUIStore();
+  const [content, setContent] = useState(selectedItem?.content ?? '');
+  const [translation, setTranslation] = useState(selectedItem?.translation ?? '');
+  const [context, setContext] = useState(selectedItem?.context ?? '');
+  const [notes, setNotes] = useState(selectedItem?.notes ?? '');
+  const [tags, setTags] = useState(selectedItem?.tags?.join(', ') ?? '');
+  const [rescheduleDays, setRescheduleDays] = useState('1');
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data: learningItems = [] } = useQuery({
+    queryKey: ['learningItems'],
+    queryFn: getLearningItems,
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['userSettings'],
+    queryFn: getUserSettings,
+  });
+
+  const { data: reviewLog = [] } = useQuery({
+    queryKey: ['reviewLog'],
+    queryFn: getReviewLog,
+  });
+
+  // 使用存储中的最新版本，复习或重新生成后也能显示最新状态
+  const item = learningItems.find(i => i.id === selectedItem?.id) ?? selectedItem;
+
+  const saveMutation = useMutation({
+    mutationFn: async (updatedItem: LearningItem) => {
+      await saveLearningItem(updatedItem);
+      return updatedItem;
+    },
+    onSuccess: (updatedItem) => {
+      setSelectedItem(updatedItem);
+      queryClient.invalidateQueries({ queryKey: ['learningItems'] });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      const response = await regenerateDetails(itemId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to regenerate details');
+      }
+      return response.data;
+    },
+    onSuccess: (updatedItem) => {
+      setSelectedItem(updatedItem);
+      setMessage({ severity: 'success', text: 'AI explanation regenerated' });
+      queryClient.invalidateQueries({ queryKey: ['learningItems'] });
+    },
+    onError: (error) => {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : 'Failed to regenerate details' });
+    },
+  });
+
+  const handleBack = () => {
+    setSelectedItem(null);
+    setCurrentPage('wordList');
+  };
+
+  if (!item) {
+    return (
+      <Box p={2}>
+        <Typography color="text.secondary" gutterBottom>
+          This item no longer exists.
+        </Typography>
+        <Button startIcon={<ArrowBack />} onClick={handleBack}>
+          Back to words
+        </Button>
+      </Box>
+    );
+  }
+
+  const history = reviewLog
+    .filter(entry => entry.itemId === item.id)
+    .sort((a, b) => b.reviewedAt - a.reviewedAt);
+  const variants = getItemVariants(item, settings);
+
+  const handleSave = async () => {
+    if (!content.trim()) return;
+    const parsedTags = parseTags(tags);
+    const saved = await saveMutation.mutateAsync({
+      ...setItemContext(item, context),
+      content: content.trim(),
+      translation: translation.trim(),
+      notes: notes.trim() || undefined,
+      tags: parsedTags.length ? parsedTags : undefined,
+    });
+    // 输入框显示规范化后的值
+    setContent(saved.content);
+    setTranslation(saved.translation);
+    setContext(saved.context ?? '');
+    setNotes(saved.notes ?? '');
+    setTags(saved.tags?.join(', ') ?? '');
+    setMessage({ severity: 'success', text: 'Changes saved' });
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Reset all review progress for this item? It will be studied as a new card again.')) return;
+    const scheduler = settings ? getDeckSettings(settings, item.deckId).scheduler : item.schedulerState.scheduler;
+    await saveMutation.mutateAsync(resetItemSchedule(item, scheduler));
+    setMessage({ severity: 'success', text: 'Review progress reset' });
+  };
+
+  const handleReschedule = async () => {
+    const days = Math.max(0, parseInt(rescheduleDays) || 0);
+    await saveMutation.mutateAsync(rescheduleItem(item, days, settings, settings?.dayStartHour));
+    setMessage({ severity: 'success', text: days === 0 ? 'Due now' : `Due in ${days} day${days > 1 ? 's' : ''}` });
+  };
+
+  const isDirty =
+    content !== item.content ||
+    translation !== item.translation ||
+    context !== (item.context ?? '') ||
+    notes !== (item.notes ?? '') ||
+    tags !== (item.tags?.join(', ') ?? '');
+
+  return (
+    <Box p={2} sx={{ height: '100%', overflow: 'auto' }}>
+      <Box display="flex" alignItems="center" gap={1} mb={2}>
+        <IconButton onClick={handleBack} size="small">
+          <ArrowBack />
+        </IconButton>
+        <Typography variant="h6" noWrap sx={{ flex: 1 }}>
+          {item.content}
+        </Typography>
+        <Chip
+          label={item.type}
+          size="small"
+          variant="outlined"
+          color={item.type === 'word' ? 'primary' : 'secondary'}
+        />
+      </Box>
+
+      {message && (
+        <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mb: 2 }}>
+          {message.text}
+        </Alert>
+      )}
+
+      {/* 编辑内容 */}
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <TextField
+            fullWidth
+            size="small"
+            label="Content"
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            error={!content.trim()}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            size="small"
+            multiline
+            label="Translation"
+            value={translation}
+            onChange={(e) => setTranslation(e.target.value)}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            size="small"
+            multiline
+            label="Context"
+            value={context}
+            onChange={(e) => setContext(e.target.value)}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            size="small"
+            multiline
+            minRows={2}
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            size="small"
+            label="Tags"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            helperText="Comma separated"
+            sx={{ mb: 2 }}
+          />
+          <Button
+            variant="contained"
+            fullWidth
+            onClick={handleSave}
+            disabled={!isDirty || !content.trim() || saveMutation.isPending}
+          >
+            Save Changes
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* AI 说明 */}
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+            <Typography variant="subtitle1">AI Explanation</Typography>
+            <Button
+              size="small"
+              startIcon={<AutoAwesome />}
+              onClick={() => regenerateMutation.mutate(item.id)}
+              disabled={regenerateMutation.isPending}
+            >
+              {regenerateMutation.isPending ? 'Generating...' : 'Regenerate'}
+            </Button>
+          </Box>
+          <ItemDetails item={item} />
+          {!item.explanation && !item.pronunciation && !item.wordType && (
+            <Typography variant="body2" color="text.secondary">
+              No AI explanation saved for this item.
+            </Typography>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 调度状态 */}
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <Typography variant="subtitle1" gutterBottom>
+            Scheduling
+          </Typography>
+          {item.isSuspended && (
+            <Chip label="suspended" size="small" variant="outlined" sx={{ mb: 1 }} />
+          )}
+          {variants.map(variant => {
+            const schedule = getCardSchedule(item, variant);
+            const { state, repetitions, lapses, stability, difficulty, scheduler } = schedule.schedulerState;
+            return (
+              <Box key={variant} mb={1}>
+                <Typography variant="body2" fontWeight="bold">
+                  {VARIANT_LABELS[variant]} · {state}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" display="block">
+                  Due {formatDateTime(schedule.nextReviewAt)} · Interval {schedule.interval} day{schedule.interval === 1 ? '' : 's'}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" display="block">
+                  {scheduler === 'fsrs' && stability !== undefined
+                    ? `Stability ${stability.toFixed(1)}d · Difficulty ${difficulty?.toFixed(1) ?? '-'}`
+                    : `Ease ${schedule.easeFactor.toFixed(2)}`}
+                  {' · '}Reps {repetitions} · Lapses {lapses}
+                  {schedule.lastReviewedAt > 0 && ` · Last ${formatDateTime(schedule.lastReviewedAt)}`}
+                </Typography>
+              </Box>
+            );
+          })}
+
+          <Divider sx={{ my: 1.5 }} />
+
+          <Box display="flex" alignItems="center" gap={1}>
+            <TextField
+              size="small"
+              type="number"
+              label="Due in (days)"
+              value={rescheduleDays}
+              onChange={(e) => setRescheduleDays(e.target.value)}
+              inputProps={{ min: 0, max: 3650 }}
+              helperText="0 = due now"
+              sx={{ flex: 1 }}
+            />
+            <Button
+              variant="outlined"
+              startIcon={<Event />}
+              onClick={handleReschedule}
+              disabled={saveMutation.isPending}
+              sx={{ mb: 2.5 }}
+            >
+              Reschedule
+            </Button>
+          </Box>
+          <Button
+            fullWidth
+            color="error"
+            variant="outlined"
+            startIcon={<Replay />}
+            onClick={handleReset}
+            disabled={saveMutation.isPending}
+          >
+            Reset Progress
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* 复习记录 */}
+      <Card>
+        <CardContent>
+          <Typography variant="subtitle1" gutterBottom>
+            Review History ({history.length})
+          </Typography>
+          {history.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              Not reviewed yet. Added {formatDateTime(item.createdAt)}.
+            </Typography>
+          ) : (
+            history.map(entry => (
+              <Box
+                key={entry.id}
+                display="flex"
+                justifyContent="space-between"
+                py={0.5}
+                sx={{ borderBottom: 1, borderColor: 'divider' }}
+              >
+                <Box>
+                  <Typography variant="body2">
+                    {RATING_LABELS[entry.quality]}
+                    {entry.isCram && (
+                      <Typography component="span" variant="caption" color="text.secondary"> · cram</Typography>
+                    )}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {formatDateTime(entry.reviewedAt)} · {VARIANT_LABELS[entry.variant ?? 'forward']} · {entry.cardState}
+                  </Typography>
+                </Box>
+                <Box textAlign="right">
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    {entry.previousInterval}d → {entry.newInterval}d
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    {(entry.timeTaken / 1000).toFixed(1)}s
+                  </Typography>
+                </Box>
+              </Box>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default ItemDetailPage;
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState, useEffect, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   Box,
   Typography,
@@ -10,65 +10,498 @@ import {
   LinearProgress,
   Chip,
   IconButton,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
-import { VolumeUp, ArrowBack } from '@mui/icons-material';
+import {
+  VolumeUp,
+  ArrowBack,
+  Snooze,
+  PauseCircleOutline,
+  Undo,
+  Style,
+  Keyboard,
+  ShortText,
+  FormatListBulleted,
+  Reorder,
+} from '@mui/icons-material';
 import { useUIStore } from '../../stores/uiStore';
-import { updateItemAfterReview } from '../../services/reviewEngine';
-import { saveLearningItem } from '../../services/storageService';
-import { LearningItem, ReviewResult } from '../../types';
+import {
+  generateExamples,
+  submitReview,
+  undoReview,
+  updateItemStatus,
+} from '../../services/messageService';
+import {
+  createReviewSession,
+  getCardSchedule,
+  getFailedCards,
+  isInLearningSteps,
+} from '../../services/reviewEngine';
+import { AnswerCheck, checkAnswer } from '../../services/answerDiff';
+import { checkClozeAnswer, getItemCloze } from '../../services/cloze';
+import { buildChoices, getChoiceQuality } from '../../services/multipleChoice';
+import { ReconstructionCheck, tokenizeSentence } from '../../services/sentenceDrill';
+import { DEFAULT_REVIEW_SHORTCUTS, matchesShortcut } from '../../services/shortcuts';
+import {
+  appendReviewSession,
+  getLearningItems,
+  getReviewLog,
+  getUserSettings
+} from '../../services/storageService';
+import { getReviewEncounter } from '../../services/encounters';
+import AnswerDiff from '../components/AnswerDiff';
+import ItemDetails from '../components/ItemDetails';
+import SentenceDrill from '../components/SentenceDrill';
+import SessionSummary from '../components/SessionSummary';
+import ShortcutHint from '../components/ShortcutHint';
+import {
+  CardVariant,
+  ItemStatusAction,
+  LearningItem,
+  ReviewCard,
+  ReviewLogEntry,
+  ReviewMode,
+  ReviewResult,
+  ReviewSession,
+  ReviewShortcutAction,
+} from '../../types';
+
+// 选择题的作答结果
+interface ChoiceResult {
+  choice: string;
+  isCorrect: boolean;
+  quality: ReviewResult['quality'];
+}
+
+// 可撤销的一次评分：复习前的项目、卡片类型和当时的会话位置
+interface UndoEntry {
+  logEntryId: string;
+  previousItem: LearningItem;
+  variant: CardVariant;
+  index: number;
+}
+
+// 自评按钮，依次对应 0 - 5 分
+const RATING_BUTTONS: {
+  quality: ReviewResult['quality'];
+  label: string;
+  color: 'error' | 'warning' | 'success' | 'primary';
+  shortcut: ReviewShortcutAction;
+}[] = [
+  { quality: 0, label: 'Forgot', color: 'error', shortcut: 'rate0' },
+  { quality: 1, label: 'Wrong', color: 'error', shortcut: 'rate1' },
+  { quality: 2, label: 'Almost', color: 'warning', shortcut: 'rate2' },
+  { quality: 3, label: 'Hard', color: 'warning', shortcut: 'rate3' },
+  { quality: 4, label: 'Good', color: 'success', shortcut: 'rate4' },
+  { quality: 5, label: 'Easy', color: 'primary', shortcut: 'rate5' },
+];
+
+// 听写的播放语速
+const DICTATION_RATES = [
+  { label: 'Slow', rate: 0.7 },
+  { label: 'Slower', rate: 0.5 },
+];
+
+// 输入框中只响应带 Ctrl 的快捷键；检查答案后输入框变为只读，快捷键恢复
+const isTypingTarget = (target: EventTarget | null) =>
+  (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) && !target.readOnly;
+
+const isInputTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
 
 const ReviewPage = () => {
-  const { reviewQueue, setReviewQueue, setCurrentPage } = useUIStore();
+  const {
+    reviewQueue,
+    setReviewQueue,
+    setCurrentPage,
+    reviewMode,
+    setReviewMode,
+    cramOptions,
+    setCramOptions,
+  } = useUIStore();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [reviewedCount, setReviewedCount] = useState(0);
+  const [cardShownAt, setCardShownAt] = useState(Date.now());
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [answerCheck, setAnswerCheck] = useState<AnswerCheck | null>(null);
+  const [choiceResult, setChoiceResult] = useState<ChoiceResult | null>(null);
+  const [drillResult, setDrillResult] = useState<ReconstructionCheck | null>(null);
+  // 本次会话的复习记录，结束时汇总为会话统计
+  const [sessionEntries, setSessionEntries] = useState<ReviewLogEntry[]>([]);
+  const [sessionStartedAt, setSessionStartedAt] = useState(Date.now());
+  const [summary, setSummary] = useState<ReviewSession | null>(null);
   
   const queryClient = useQueryClient();
 
-  // 更新学习项目的 mutation
+  const { data: settings } = useQuery({
+    queryKey: ['userSettings'],
+    queryFn: getUserSettings,
+  });
+  const shortcuts = settings?.reviewShortcuts ?? DEFAULT_REVIEW_SHORTCUTS;
+  const withShortcut = (title: string, action: ReviewShortcutAction) =>
+    shortcuts[action] ? `${title} (${shortcuts[action]})` : title;
+
+  // 提交复习结果的 mutation，由 background 按设置中的调度算法更新项目
   const updateItemMutation = useMutation({
-    mutationFn: async ({ item, result }: { item: LearningItem; result: ReviewResult }) => {
-      const updatedItem = updateItemAfterReview(item, result);
-      await saveLearningItem(updatedItem);
-      return updatedItem;
+    mutationFn: async ({ itemId, result, timeTaken, variant, reschedule }: {
+      itemId: string;
+      result: ReviewResult;
+      timeTaken: number;
+      variant: CardVariant;
+      reschedule: boolean;
+    }) => {
+      const response = await submitReview(itemId, result, timeTaken, variant, reschedule);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to submit review');
+      }
+      return response.data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['learningItems'] });
+      queryClient.invalidateQueries({ queryKey: ['reviewLog'] });
+    },
+  });
+
+  const currentCard = reviewQueue[currentIndex];
+  const currentItem = currentCard?.item;
+  const isReverse = currentCard?.variant === 'reverse';
+  // 听写卡片有自己的调度状态，无论选择哪种复习方式都以听写形式出现
+  const isDictation = currentCard?.variant === 'dictation';
+  const isAnswerMode = isDictation || reviewMode === 'typing' || reviewMode === 'cloze';
+
+  // 每复习一次轮换显示遇到该项目的下一个句子和来源
+  const { data: reviewLog = [] } = useQuery({
+    queryKey: ['reviewLog'],
+    queryFn: getReviewLog,
+  });
+  const encounter = currentItem
+    ? getReviewEncounter(currentItem, reviewLog.filter(entry => entry.itemId === currentItem.id).length)
+    : null;
+  const context = encounter?.context ?? currentItem?.context;
+
+  // 完形填空：没有上下文可挖空的单词请求 AI 例句
+  const needsExamples =
+    reviewMode === 'cloze' &&
+    !isDictation &&
+    !!currentItem &&
+    currentItem.type === 'word' &&
+    !currentItem.examples &&
+    !getItemCloze(currentItem, context);
+  const { data: itemWithExamples, isFetching: isGeneratingExamples } = useQuery({
+    queryKey: ['examples', currentItem?.id],
+    queryFn: async () => {
+      const response = await generateExamples(currentItem.id);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to generate examples');
+      }
+      return response.data;
     },
+    enabled: needsExamples,
+    retry: false,
+    staleTime: Infinity,
   });
+  const cloze = reviewMode === 'cloze' && !isDictation && currentItem
+    ? getItemCloze(itemWithExamples ?? currentItem, context)
+    : null;
+
+  // 选择题的干扰项和会话总结中的项目来自自己的词库
+  const { data: learningItems = [] } = useQuery({
+    queryKey: ['learningItems'],
+    queryFn: getLearningItems,
+    enabled: reviewMode === 'choice' || !!summary,
+  });
+  const choiceField = isReverse ? 'content' : 'translation';
+  const choices = useMemo(
+    () => (reviewMode === 'choice' && !isDictation && currentItem
+      ? buildChoices(currentItem, learningItems, choiceField)
+      : []),
+    // 只在换卡或词库首次加载时重新出题，复习后刷新词库不打乱选项
+    [reviewMode, currentItem?.id, isDictation, choiceField, learningItems.length > 0]
+  );
+  const isChoiceMode = reviewMode === 'choice' && choices.length > 1;
+
+  // 句子重组：只适用于多个词语的句子，单词仍以翻卡形式复习
+  const isDrill =
+    reviewMode === 'reconstruct' &&
+    !isDictation &&
+    currentItem?.type === 'sentence' &&
+    tokenizeSentence(currentItem.content).length > 1;
+  const suggestion = answerCheck ?? choiceResult ?? drillResult;
+  // 翻卡模式需要手动显示答案
+  const needsReveal = !isAnswerMode && !isChoiceMode && !isDrill;
+  // 原文是答案的卡片在作答前不能朗读
+  const canSpeak = showAnswer || isDictation || (needsReveal && !isReverse);
+
+  // 记录每张卡片的展示时间，用于计算答题用时；换卡时清空上一张卡片的作答
+  useEffect(() => {
+    setCardShownAt(Date.now());
+    setTypedAnswer('');
+    setAnswerCheck(null);
+    setChoiceResult(null);
+    setDrillResult(null);
+  }, [currentIndex, currentItem?.id, currentCard?.variant]);
 
-  const currentItem = reviewQueue[currentIndex];
   const progress = reviewQueue.length > 0 ? ((currentIndex + 1) / reviewQueue.length) * 100 : 0;
 
   const handleReviewResult = async (quality: ReviewResult['quality']) => {
-    if (!currentItem) return;
+    if (!currentCard || updateItemMutation.isPending) return;
+    const { variant } = currentCard;
 
     try {
-      await updateItemMutation.mutateAsync({
-        item: currentItem,
-        result: { quality }
+      const { item: updatedItem, logEntry } = await updateItemMutation.mutateAsync({
+        itemId: currentItem.id,
+        result: { quality },
+        timeTaken: Date.now() - cardShownAt,
+        variant,
+        reschedule: !cramOptions || cramOptions.reschedule
       });
 
+      const entries = [...sessionEntries, logEntry];
+      setSessionEntries(entries);
       setReviewedCount(prev => prev + 1);
+      setUndoStack(prev => [
+        ...prev,
+        { logEntryId: logEntry.id, previousItem: currentItem, variant, index: currentIndex }
+      ]);
+
+      // 被搁置的兄弟项目从剩余队列中移除，同一项目的其他方向使用最新的项目数据
+      const buriedIds = logEntry.buriedItemIds || [];
+      let queue = reviewQueue
+        .filter((card, index) => index <= currentIndex || !buriedIds.includes(card.item.id))
+        .map(card => (card.item.id === updatedItem.id ? { ...card, item: updatedItem } : card));
+
+      // 仍处于学习步骤的卡片放回队尾，在本轮会话中再次出现
+      // 突击复习不看学习步骤，答错的卡片放回队尾直到答对
+      const repeatCard = cramOptions
+        ? quality < 3
+        : isInLearningSteps(getCardSchedule(updatedItem, variant));
+      if (repeatCard) {
+        queue = [...queue, { item: updatedItem, variant }];
+      }
+      setReviewQueue(queue);
 
       // 移动到下一个项目
-      if (currentIndex < reviewQueue.length - 1) {
+      if (currentIndex < queue.length - 1) {
         setCurrentIndex(prev => prev + 1);
         setShowAnswer(false);
       } else {
         // 复习完成
-        handleReviewComplete();
+        handleReviewComplete(entries);
       }
     } catch (error) {
       console.error('Failed to update review result:', error);
     }
   };
 
-  const handleReviewComplete = () => {
+  // 撤销上一次评分，恢复调度状态并把卡片放回当前位置
+  const handleUndo = async () => {
+    const lastEntry = undoStack[undoStack.length - 1];
+    if (!lastEntry || updateItemMutation.isPending) return;
+
+    const response = await undoReview(lastEntry.logEntryId, lastEntry.previousItem);
+    if (!response.success) {
+      console.error('Failed to undo review:', response.error);
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ['learningItems'] });
+    queryClient.invalidateQueries({ queryKey: ['reviewLog'] });
+
+    // 只把撤销的卡片放回当前队列的最前面，评分之后被暂停或搁置的卡片不会回到本轮会话
+    const restoredItem = response.data ?? lastEntry.previousItem;
+    const { variant } = lastEntry;
+    const index = Math.min(lastEntry.index, currentIndex);
+    const remaining = reviewQueue
+      .slice(currentIndex)
+      .filter(card => !(card.item.id === restoredItem.id && card.variant === variant))
+      .map(card => (card.item.id === restoredItem.id ? { ...card, item: restoredItem } : card));
+
+    setUndoStack(prev => prev.slice(0, -1));
+    setSessionEntries(prev => prev.filter(entry => entry.id !== lastEntry.logEntryId));
+    setReviewQueue([...reviewQueue.slice(0, index), { item: restoredItem, variant }, ...remaining]);
+    setCurrentIndex(index);
+    setReviewedCount(prev => Math.max(0, prev - 1));
+    setShowAnswer(false);
+  };
+
+  // 复习快捷键：撤销在输入框中也可用，其余快捷键在输入时忽略
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (summary) return;
+      const matches = (action: ReviewShortcutAction) => matchesShortcut(event, shortcuts[action]);
+
+      if (matches('undo')) {
+        event.preventDefault();
+        handleUndo();
+        return;
+      }
+      if (isTypingTarget(event.target) || !currentItem) return;
+
+      let handled = true;
+      const choice = choices[Number(event.key) - 1];
+      const rating = RATING_BUTTONS.find(({ shortcut }) => matches(shortcut));
+
+      if (!showAnswer && needsReveal && (matches('reveal') || event.key === 'Enter')) {
+        setShowAnswer(true);
+      } else if (!showAnswer && isChoiceMode && choice) {
+        // 选择题：数字键作答
+        handleChoice(choice);
+      } else if (showAnswer && rating) {
+        handleReviewResult(rating.quality);
+      } else if (showAnswer && suggestion && event.key === 'Enter' && !isInputTarget(event.target)) {
+        // 回车按建议评分继续；拼写模式的回车由输入框处理
+        handleReviewResult(suggestion.quality);
+      } else if (matches('speak') && canSpeak) {
+        speakText(currentItem.content);
+      } else if (matches('skip')) {
+        handleSkip();
+      } else if (matches('suspend')) {
+        handleItemStatus('suspend');
+      } else {
+        handled = false;
+      }
+
+      if (handled) event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // 拼写模式：比对输入，显示差异并给出建议评分
+  const handleCheckAnswer = () => {
+    if (!currentItem) return;
+
+    setAnswerCheck(
+      cloze
+        ? checkClozeAnswer(typedAnswer, cloze, currentItem.content)
+        : checkAnswer(typedAnswer, currentItem.content)
+    );
+    setShowAnswer(true);
+  };
+
+  const handleTypingKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key !== 'Enter') return;
+
+    event.preventDefault();
+    if (answerCheck) {
+      handleReviewResult(answerCheck.quality);
+    } else {
+      handleCheckAnswer();
+    }
+  };
+
+  // 选择题：记录选项，按是否选对和用时给出建议评分
+  const handleChoice = (choice: string) => {
+    if (!currentItem || choiceResult) return;
+
+    const isCorrect = choice === currentItem[choiceField];
+    setChoiceResult({
+      choice,
+      isCorrect,
+      quality: getChoiceQuality(isCorrect, Date.now() - cardShownAt)
+    });
+    setShowAnswer(true);
+  };
+
+  // 句子重组：记录检查结果，按放错位置的词语数量给出建议评分
+  const handleDrillCheck = (result: ReconstructionCheck) => {
+    setDrillResult(result);
+    setShowAnswer(true);
+  };
+
+  const handleModeChange = (_: React.MouseEvent, mode: ReviewMode | null) => {
+    if (!mode) return;
+
+    setReviewMode(mode);
+    setShowAnswer(false);
+    setTypedAnswer('');
+    setAnswerCheck(null);
+    setChoiceResult(null);
+    setDrillResult(null);
+  };
+
+  // 保存会话统计，没有评分的会话不保存
+  const saveSession = async (entries: ReviewLogEntry[]) => {
+    if (entries.length === 0) return null;
+
+    const session = createReviewSession(entries, sessionStartedAt, reviewMode);
+    try {
+      await appendReviewSession(session);
+      queryClient.invalidateQueries({ queryKey: ['reviewSessions'] });
+    } catch (error) {
+      console.error('Failed to save review session:', error);
+    }
+    return session;
+  };
+
+  // 复习完成：显示会话总结，没有评分时直接返回首页
+  const handleReviewComplete = async (entries: ReviewLogEntry[] = sessionEntries) => {
     setReviewQueue([]);
+    const session = await saveSession(entries);
+    if (session) {
+      setSummary(session);
+    } else {
+      handleExit();
+    }
+  };
+
+  const handleExit = () => {
+    setCramOptions(null);
     setCurrentPage('home');
   };
 
+  // 中途离开也保存已完成部分的统计
+  const handleLeave = async () => {
+    await saveSession(sessionEntries);
+    handleExit();
+  };
+
+  // 重新学习本次答错过的卡片，作为新的会话
+  // 这些卡片刚刚已按遗忘重新安排，以突击复习进行，评分不再改变调度状态，也不重复计入遗忘次数
+  const handleRestudy = async () => {
+    const items = await getLearningItems();
+    const queue = getFailedCards(sessionEntries)
+      .map(({ itemId, variant }) => ({ item: items.find(item => item.id === itemId), variant }))
+      .filter((card): card is ReviewCard => !!card.item && !card.item.isSuspended);
+
+    setCramOptions({ reschedule: false });
+    setSummary(null);
+    setSessionEntries([]);
+    setSessionStartedAt(Date.now());
+    setUndoStack([]);
+    setReviewedCount(0);
+    setCurrentIndex(0);
+    setShowAnswer(false);
+    setReviewQueue(queue);
+  };
+
+  // 搁置或暂停当前卡片，并将它移出本轮会话
+  const handleItemStatus = async (status: ItemStatusAction) => {
+    if (!currentItem) return;
+
+    const response = await updateItemStatus(currentItem.id, status);
+    if (!response.success) {
+      console.error('Failed to update item status:', response.error);
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ['learningItems'] });
+
+    const queue = [
+      ...reviewQueue.slice(0, currentIndex),
+      ...reviewQueue.slice(currentIndex).filter(card => card.item.id !== currentItem.id)
+    ];
+    setReviewQueue(queue);
+    setShowAnswer(false);
+
+    if (currentIndex >= queue.length) {
+      handleReviewComplete();
+    }
+  };
+
   const handleSkip = () => {
     if (currentIndex < reviewQueue.length - 1) {
       setCurrentIndex(prev => prev + 1);
@@ -78,14 +511,37 @@ const ReviewPage = () => {
     }
   };
 
-  const speakText = (text: string) => {
+  const speakText = (text: string, rate: number = 1) => {
     if ('speechSynthesis' in window) {
+      speechSynthesis.cancel();
       const utterance = new SpeechSynthesisUtterance(text);
       utterance.lang = 'en-US';
+      utterance.rate = rate;
       speechSynthesis.speak(utterance);
     }
   };
 
+  // 听写卡片出现时自动朗读一次
+  useEffect(() => {
+    if (isDictation && currentItem) {
+      speakText(currentItem.content);
+    }
+  }, [currentIndex, currentItem?.id, isDictation]);
+
+  if (summary) {
+    return (
+      <SessionSummary
+        session={summary}
+        hardestItems={summary.hardestItemIds
+          .map(id => learningItems.find(item => item.id === id))
+          .filter((item): item is LearningItem => !!item)}
+        failedCount={getFailedCards(sessionEntries).length}
+        onRestudy={handleRestudy}
+        onDone={handleExit}
+      />
+    );
+  }
+
   if (reviewQueue.length === 0) {
     return (
       <Box p={2} textAlign="center">
@@ -119,64 +575,271 @@ const ReviewPage = () => {
       {/* 头部 */}
       <Box p={2} sx={{ borderBottom: 1, borderColor: 'divider' }}>
         <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
-          <IconButton onClick={() => setCurrentPage('home')} size="small">
+          <IconButton onClick={handleLeave} size="small">
             <ArrowBack />
           </IconButton>
           <Typography variant="subtitle1">
-            Review {currentIndex + 1} of {reviewQueue.length}
+            {cramOptions ? 'Cram' : 'Review'} {currentIndex + 1} of {reviewQueue.length}
           </Typography>
-          <Chip
-            label={`${reviewedCount} done`}
-            size="small"
-            color="success"
-            variant="outlined"
-          />
+          <Box display="flex" alignItems="center" gap={0.5}>
+            <IconButton
+              onClick={handleUndo}
+              size="small"
+              disabled={undoStack.length === 0 || updateItemMutation.isPending}
+              title={withShortcut('Undo last rating', 'undo')}
+            >
+              <Undo fontSize="small" />
+            </IconButton>
+            <Chip
+              label={`${reviewedCount} done`}
+              size="small"
+              color="success"
+              variant="outlined"
+            />
+          </Box>
         </Box>
         <LinearProgress
           variant="determinate"
           value={progress}
           sx={{ height: 6, borderRadius: 3 }}
         />
+        <Box display="flex" justifyContent="center" mt={1}>
+          <ToggleButtonGroup
+            value={reviewMode}
+            exclusive
+            onChange={handleModeChange}
+            size="small"
+          >
+            <ToggleButton value="flashcard" title="Flashcard: show answer and rate yourself" aria-label="Flashcard">
+              <Style fontSize="small" />
+            </ToggleButton>
+            <ToggleButton value="typing" title="Typing: type the original from its translation" aria-label="Typing">
+              <Keyboard fontSize="small" />
+            </ToggleButton>
+            <ToggleButton value="cloze" title="Cloze: fill the word into its original sentence" aria-label="Cloze">
+              <ShortText fontSize="small" />
+            </ToggleButton>
+            <ToggleButton value="choice" title="Choice: pick the right answer out of four" aria-label="Choice">
+              <FormatListBulleted fontSize="small" />
+            </ToggleButton>
+            <ToggleButton value="reconstruct" title="Reconstruct: rebuild saved sentences from shuffled words" aria-label="Reconstruct">
+              <Reorder fontSize="small" />
+            </ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
       </Box>
 
       {/* 复习卡片 */}
       <Box sx={{ flex: 1, p: 2, display: 'flex', flexDirection: 'column' }}>
         <Card sx={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
           <CardContent sx={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'center' }}>
-            {/* 问题部分 */}
+            {/* 问题部分：听写卡片只播放发音；翻卡模式按卡片方向显示原文或翻译，拼写和重组模式显示翻译，填空模式显示挖空的句子 */}
             <Box textAlign="center" mb={3}>
-              <Box display="flex" alignItems="center" justifyContent="center" gap={1} mb={2}>
-                <Typography variant="h4" color="primary">
-                  {currentItem.content}
-                </Typography>
+              {isDictation ? (
+                <Box mb={2}>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    Listen and type what you hear
+                  </Typography>
+                  <Box display="flex" alignItems="center" justifyContent="center" gap={1}>
+                    <IconButton
+                      onClick={() => speakText(currentItem.content)}
+                      color="primary"
+                      title={withShortcut('Replay', 'speak')}
+                    >
+                      <VolumeUp fontSize="large" />
+                    </IconButton>
+                    {DICTATION_RATES.map(({ label, rate }) => (
+                      <Button
+                        key={label}
+                        size="small"
+                        variant="outlined"
+                        onClick={() => speakText(currentItem.content, rate)}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                    {currentItem.type === 'word' && context && (
+                      <Button
+                        size="small"
+                        onClick={() => speakText(context, 0.9)}
+                        title="Hear the word in its original sentence"
+                      >
+                        Context
+                      </Button>
+                    )}
+                  </Box>
+                </Box>
+              ) : cloze ? (
+                <Box mb={2}>
+                  <Typography variant="h6" gutterBottom sx={{ lineHeight: 1.8 }}>
+                    {cloze.before}
+                    <Box
+                      component="span"
+                      sx={{ px: 0.5, borderBottom: 2, borderColor: 'primary.main', color: 'success.main' }}
+                    >
+                      {answerCheck ? cloze.answer : '\u00a0'.repeat(Math.max(6, cloze.answer.length * 2))}
+                    </Box>
+                    {cloze.after}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {currentItem.translation}
+                    {cloze.source === 'example' && ' · AI example'}
+                  </Typography>
+                </Box>
+              ) : isAnswerMode || isReverse || isDrill ? (
+                <Box mb={2}>
+                  <Typography variant="h5" color="primary" gutterBottom>
+                    {currentItem.translation}
+                  </Typography>
+                  {reviewMode === 'cloze' && (
+                    <Typography variant="caption" color="text.secondary">
+                      {isGeneratingExamples
+                        ? 'Generating an example sentence...'
+                        : 'No sentence to fill in, type the original instead'}
+                    </Typography>
+                  )}
+                </Box>
+              ) : (
+                <Box display="flex" alignItems="center" justifyContent="center" gap={1} mb={2}>
+                  <Typography variant="h4" color="primary">
+                    {currentItem.content}
+                  </Typography>
+                  <IconButton
+                    onClick={() => speakText(currentItem.content)}
+                    size="small"
+                    color="primary"
+                    title={withShortcut('Play pronunciation', 'speak')}
+                  >
+                    <VolumeUp />
+                  </IconButton>
+                </Box>
+              )}
+              
+              <Box display="flex" alignItems="center" justifyContent="center" gap={1}>
+                <Chip
+                  label={(currentItem.type === 'word' ? 'Word' : 'Sentence') +
+                    (isReverse ? ' · Reverse' : isDictation ? ' · Dictation' : '')}
+                  size="small"
+                  variant="outlined"
+                />
+                <IconButton
+                  onClick={() => handleItemStatus('bury')}
+                  size="small"
+                  title="Bury until tomorrow"
+                >
+                  <Snooze fontSize="small" />
+                </IconButton>
                 <IconButton
-                  onClick={() => speakText(currentItem.content)}
+                  onClick={() => handleItemStatus('suspend')}
                   size="small"
-                  color="primary"
+                  title={withShortcut('Suspend', 'suspend')}
                 >
-                  <VolumeUp />
+                  <PauseCircleOutline fontSize="small" />
                 </IconButton>
               </Box>
               
-              <Chip
-                label={currentItem.type === 'word' ? 'Word' : 'Sentence'}
-                size="small"
-                variant="outlined"
-              />
-              
-              {currentItem.context && (
-                <Typography variant="body2" color="text.secondary" sx={{ mt: 2, fontStyle: 'italic' }}>
-                  Context: "{currentItem.context}"
-                </Typography>
+              {/* 上下文包含原文，拼写、填空、重组模式和反向卡片不显示 */}
+              {context && !isAnswerMode && !isReverse && !isDrill && (
+                <Box mt={2}>
+                  <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+                    Context: "{context}"
+                  </Typography>
+                  {encounter?.sourceTitle && (
+                    <Typography variant="caption" color="text.disabled" display="block" noWrap>
+                      from {encounter.sourceTitle}
+                    </Typography>
+                  )}
+                </Box>
               )}
             </Box>
 
             {/* 答案部分 */}
-            {showAnswer ? (
+            {isDrill ? (
+              <SentenceDrill
+                key={`${currentIndex}:${currentItem.id}`}
+                sentence={currentItem.content}
+                result={drillResult}
+                onCheck={handleDrillCheck}
+              />
+            ) : isAnswerMode ? (
               <Box textAlign="center" mb={3}>
-                <Typography variant="h6" color="success.main" gutterBottom>
-                  {currentItem.translation}
-                </Typography>
+                <TextField
+                  fullWidth
+                  autoFocus
+                  size="small"
+                  placeholder={cloze ? 'Fill in the blank' : isDictation ? 'Type what you hear' : 'Type the original text'}
+                  value={typedAnswer}
+                  onChange={(e) => setTypedAnswer(e.target.value)}
+                  onKeyDown={handleTypingKeyDown}
+                  InputProps={{ readOnly: !!answerCheck }}
+                  inputProps={{ autoCapitalize: 'off', autoComplete: 'off', spellCheck: false }}
+                />
+                {answerCheck && (
+                  <Box mt={2}>
+                    <AnswerDiff diff={answerCheck.diff} />
+                    {!answerCheck.isExact && (
+                      <Box display="flex" alignItems="center" justifyContent="center" gap={1} mt={1}>
+                        <Typography variant="body2" color="text.secondary">
+                          Answer: {cloze ? cloze.answer : currentItem.content}
+                        </Typography>
+                        <IconButton
+                          onClick={() => speakText(currentItem.content)}
+                          size="small"
+                          color="primary"
+                          title={withShortcut('Play pronunciation', 'speak')}
+                        >
+                          <VolumeUp fontSize="small" />
+                        </IconButton>
+                      </Box>
+                    )}
+                    {isDictation && (
+                      <Typography variant="body2" color="success.main" sx={{ mt: 1 }}>
+                        {currentItem.translation}
+                      </Typography>
+                    )}
+                  </Box>
+                )}
+              </Box>
+            ) : isChoiceMode ? (
+              <Box display="flex" flexDirection="column" gap={1} mb={3}>
+                {choices.map((choice, index) => {
+                  const isAnswer = choice === currentItem[choiceField];
+                  const isPicked = choice === choiceResult?.choice;
+                  return (
+                    <Button
+                      key={choice}
+                      fullWidth
+                      variant={choiceResult && (isAnswer || isPicked) ? 'contained' : 'outlined'}
+                      color={choiceResult ? (isAnswer ? 'success' : isPicked ? 'error' : 'inherit') : 'primary'}
+                      onClick={() => handleChoice(choice)}
+                      sx={{ justifyContent: 'flex-start', textTransform: 'none' }}
+                    >
+                      {index + 1}. {choice}
+                    </Button>
+                  );
+                })}
+              </Box>
+            ) : showAnswer ? (
+              <Box textAlign="center" mb={3}>
+                {isReverse ? (
+                  <Box display="flex" alignItems="center" justifyContent="center" gap={1} mb={1}>
+                    <Typography variant="h5" color="success.main">
+                      {currentItem.content}
+                    </Typography>
+                    <IconButton
+                      onClick={() => speakText(currentItem.content)}
+                      size="small"
+                      color="primary"
+                      title={withShortcut('Play pronunciation', 'speak')}
+                    >
+                      <VolumeUp fontSize="small" />
+                    </IconButton>
+                  </Box>
+                ) : (
+                  <Typography variant="h6" color="success.main" gutterBottom>
+                    {currentItem.translation}
+                  </Typography>
+                )}
                 <Typography variant="body2" color="text.secondary">
                   How well did you remember this?
                 </Typography>
@@ -189,49 +852,67 @@ const ReviewPage = () => {
                   size="large"
                 >
                   Show Answer
+                  <ShortcutHint shortcut={shortcuts.reveal} />
                 </Button>
               </Box>
             )}
+
+            {/* 卡片背面：保存时记录的完整词条 */}
+            {showAnswer && (
+              <ItemDetails
+                item={currentItem}
+                sx={{ maxHeight: 160, overflow: 'auto', borderTop: 1, borderColor: 'divider', pt: 1 }}
+              />
+            )}
           </CardContent>
 
           {/* 操作按钮 */}
           <Box p={2} sx={{ borderTop: 1, borderColor: 'divider' }}>
             {showAnswer ? (
               <Box>
-                <Typography variant="body2" textAlign="center" mb={2} color="text.secondary">
-                  Rate your memory:
-                </Typography>
-                <ButtonGroup fullWidth variant="outlined" size="small">
+                {suggestion ? (
                   <Button
-                    onClick={() => handleReviewResult(0)}
-                    color="error"
+                    fullWidth
+                    variant="contained"
+                    color={suggestion.isCorrect ? 'success' : 'error'}
+                    onClick={() => handleReviewResult(suggestion.quality)}
                     disabled={updateItemMutation.isPending}
+                    sx={{ mb: 1 }}
                   >
-                    Forgot
-                  </Button>
-                  <Button
-                    onClick={() => handleReviewResult(2)}
-                    color="warning"
-                    disabled={updateItemMutation.isPending}
-                  >
-                    Hard
-                  </Button>
-                  <Button
-                    onClick={() => handleReviewResult(4)}
-                    color="success"
-                    disabled={updateItemMutation.isPending}
-                  >
-                    Good
-                  </Button>
-                  <Button
-                    onClick={() => handleReviewResult(5)}
-                    color="primary"
-                    disabled={updateItemMutation.isPending}
-                  >
-                    Easy
+                    Continue as {RATING_BUTTONS[suggestion.quality].label}
+                    <ShortcutHint shortcut="Enter" />
                   </Button>
+                ) : (
+                  <Typography variant="body2" textAlign="center" mb={2} color="text.secondary">
+                    Rate your memory:
+                  </Typography>
+                )}
+                <ButtonGroup fullWidth variant="outlined" size="small">
+                  {RATING_BUTTONS.map(({ quality, label, color, shortcut }) => (
+                    <Button
+                      key={quality}
+                      onClick={() => handleReviewResult(quality)}
+                      color={color}
+                      disabled={updateItemMutation.isPending}
+                      sx={{ flexDirection: 'column', minWidth: 0, px: 0.5, textTransform: 'none' }}
+                    >
+                      {label}
+                      <ShortcutHint shortcut={shortcuts[shortcut]} sx={{ ml: 0 }} />
+                    </Button>
+                  ))}
                 </ButtonGroup>
               </Box>
+            ) : isAnswerMode ? (
+              <Box display="flex" gap={1}>
+                <Button fullWidth variant="text" onClick={handleSkip} color="inherit">
+                  Skip
+                  <ShortcutHint shortcut={shortcuts.skip} />
+                </Button>
+                <Button fullWidth variant="contained" onClick={handleCheckAnswer}>
+                  Check
+                  <ShortcutHint shortcut="Enter" />
+                </Button>
+              </Box>
             ) : (
               <Button
                 fullWidth
@@ -239,7 +920,8 @@ const ReviewPage = () => {
                 onClick={handleSkip}
                 color="inherit"
               >
-                Skip this word
+                Skip this {currentItem.type === 'word' ? 'word' : 'sentence'}
+                <ShortcutHint shortcut={shortcuts.skip} />
               </Button>
             )}
           </Box>
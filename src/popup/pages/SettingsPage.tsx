@@ -17,15 +17,48 @@ import {
   CardContent,
   Chip,
   CircularProgress,
+  IconButton,
 } from '@mui/material';
-import { CheckCircle } from '@mui/icons-material';
-import { getUserSettings, saveUserSettings } from '../../services/storageService';
-import { UserSettings } from '../../types';
+import { CheckCircle, Delete, Edit } from '@mui/icons-material';
+import {
+  deleteDeck,
+  getLearningItems,
+  getUserSettings,
+  saveUserSettings,
+} from '../../services/storageService';
+import { createDeck, filterItemsByDeck } from '../../services/decks';
+import {
+  DEFAULT_REVIEW_SHORTCUTS,
+  findShortcutConflicts,
+  getShortcutFromEvent,
+} from '../../services/shortcuts';
+import { parseSteps } from '../stepsInput';
+import DeckSettingsDialog from '../components/DeckSettingsDialog';
+import { Deck, ReviewShortcutAction, SchedulerType, UserSettings } from '../../types';
+
+// 复习快捷键的说明
+const SHORTCUT_LABELS: Record<ReviewShortcutAction, string> = {
+  reveal: 'Show answer',
+  rate0: 'Rate 0 · Forgot',
+  rate1: 'Rate 1 · Wrong',
+  rate2: 'Rate 2 · Almost',
+  rate3: 'Rate 3 · Hard',
+  rate4: 'Rate 4 · Good',
+  rate5: 'Rate 5 · Easy',
+  speak: 'Play pronunciation',
+  skip: 'Skip card',
+  undo: 'Undo last rating',
+  suspend: 'Suspend card',
+};
 
 const SettingsPage = () => {
   const [apiKey, setApiKey] = useState('');
   const [isValidating, setIsValidating] = useState(false);
   const [validationResult, setValidationResult] = useState<{ valid: boolean; message: string } | null>(null);
+  const [learningSteps, setLearningSteps] = useState('');
+  const [relearningSteps, setRelearningSteps] = useState('');
+  const [newDeckName, setNewDeckName] = useState('');
+  const [editingDeck, setEditingDeck] = useState<Deck | null>(null);
   
   const queryClient = useQueryClient();
 
@@ -35,6 +68,12 @@ const SettingsPage = () => {
     queryFn: getUserSettings,
   });
 
+  // 获取学习项目（统计每个牌组的项目数量）
+  const { data: learningItems = [] } = useQuery({
+    queryKey: ['learningItems'],
+    queryFn: getLearningItems,
+  });
+
   // 当设置加载完成或AI提供商改变时，更新API Key输入框
   useEffect(() => {
     if (settings?.apiKeys) {
@@ -42,6 +81,14 @@ const SettingsPage = () => {
     }
   }, [settings?.aiProvider, settings?.apiKeys]);
 
+  // 学习步骤以空格分隔的分钟数编辑
+  useEffect(() => {
+    if (settings) {
+      setLearningSteps(settings.learningSteps.join(' '));
+      setRelearningSteps(settings.relearningSteps.join(' '));
+    }
+  }, [settings?.learningSteps, settings?.relearningSteps]);
+
   // 保存设置的 mutation
   const saveSettingsMutation = useMutation({
     mutationFn: saveUserSettings,
@@ -94,6 +141,42 @@ const SettingsPage = () => {
     await saveSettingsMutation.mutateAsync(newSettings);
   };
 
+  // 在输入框中按下新的按键即可设置快捷键，Backspace / Delete 清除，Tab 正常切换焦点
+  const handleShortcutKeyDown = (action: ReviewShortcutAction, event: React.KeyboardEvent) => {
+    if (!settings || (event.key === 'Tab' && !event.ctrlKey && !event.metaKey && !event.altKey)) return;
+
+    event.preventDefault();
+    const shortcut = event.key === 'Backspace' || event.key === 'Delete'
+      ? ''
+      : getShortcutFromEvent(event.nativeEvent);
+    if (shortcut === null) return;
+
+    handleSaveSettings({ reviewShortcuts: { ...settings.reviewShortcuts, [action]: shortcut } });
+  };
+
+  const handleAddDeck = async () => {
+    if (!settings || !newDeckName.trim()) return;
+    await handleSaveSettings({ decks: [...settings.decks, createDeck(newDeckName)] });
+    setNewDeckName('');
+  };
+
+  const handleSaveDeck = async (deck: Deck) => {
+    if (!settings) return;
+    setEditingDeck(null);
+    await handleSaveSettings({
+      decks: settings.decks.map(existing => (existing.id === deck.id ? deck : existing))
+    });
+  };
+
+  const handleDeleteDeck = async (deck: Deck) => {
+    if (!confirm(`Delete the deck "${deck.name}"? Its words are kept and moved out of the deck.`)) return;
+    await deleteDeck(deck.id);
+    queryClient.invalidateQueries({ queryKey: ['userSettings'] });
+    queryClient.invalidateQueries({ queryKey: ['learningItems'] });
+  };
+
+  const shortcutConflicts = settings ? findShortcutConflicts(settings.reviewShortcuts) : [];
+
   if (isLoading || !settings) {
     return (
       <Box p={2} textAlign="center">
@@ -209,6 +292,55 @@ const SettingsPage = () => {
             </Select>
           </FormControl>
 
+          <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+            <InputLabel>Scheduling Algorithm</InputLabel>
+            <Select
+              value={settings.scheduler}
+              label="Scheduling Algorithm"
+              onChange={(e) => handleSaveSettings({ scheduler: e.target.value as SchedulerType })}
+            >
+              <MenuItem value="sm2">SM-2 (classic)</MenuItem>
+              <MenuItem value="fsrs">FSRS (stability / difficulty)</MenuItem>
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+            <InputLabel>New Day Starts At</InputLabel>
+            <Select
+              value={settings.dayStartHour}
+              label="New Day Starts At"
+              onChange={(e) => handleSaveSettings({ dayStartHour: Number(e.target.value) })}
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <MenuItem key={hour} value={hour}>
+                  {`${hour.toString().padStart(2, '0')}:00`}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            fullWidth
+            size="small"
+            label="Learning Steps (minutes)"
+            value={learningSteps}
+            onChange={(e) => setLearningSteps(e.target.value)}
+            onBlur={() => handleSaveSettings({ learningSteps: parseSteps(learningSteps) })}
+            helperText="New cards repeat at these delays before graduating, e.g. 1 10 (h / d suffixes allowed)"
+            sx={{ mb: 2 }}
+          />
+
+          <TextField
+            fullWidth
+            size="small"
+            label="Relearning Steps (minutes)"
+            value={relearningSteps}
+            onChange={(e) => setRelearningSteps(e.target.value)}
+            onBlur={() => handleSaveSettings({ relearningSteps: parseSteps(relearningSteps) })}
+            helperText="Forgotten cards repeat at these delays, e.g. 10"
+            sx={{ mb: 2 }}
+          />
+
           <TextField
             fullWidth
             size="small"
@@ -220,6 +352,90 @@ const SettingsPage = () => {
             sx={{ mb: 2 }}
           />
 
+          <TextField
+            fullWidth
+            size="small"
+            label="Daily New Card Limit"
+            type="number"
+            value={settings.dailyNewLimit}
+            onChange={(e) => handleSaveSettings({ dailyNewLimit: parseInt(e.target.value) || 0 })}
+            inputProps={{ min: 0, max: 200 }}
+            sx={{ mb: 2 }}
+          />
+
+          <TextField
+            fullWidth
+            size="small"
+            label="Leech Threshold (lapses)"
+            type="number"
+            value={settings.leechThreshold}
+            onChange={(e) => handleSaveSettings({ leechThreshold: parseInt(e.target.value) || 0 })}
+            inputProps={{ min: 0, max: 50 }}
+            helperText="Cards forgotten this many times are tagged as leeches (0 to disable)"
+            sx={{ mb: 1 }}
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.autoSuspendLeeches}
+                onChange={(e) => handleSaveSettings({ autoSuspendLeeches: e.target.checked })}
+              />
+            }
+            label="Automatically suspend leeches"
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.enableFuzz}
+                onChange={(e) => handleSaveSettings({ enableFuzz: e.target.checked })}
+              />
+            }
+            label="Randomise intervals slightly (fuzz)"
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.enableLoadBalancing}
+                disabled={!settings.enableFuzz}
+                onChange={(e) => handleSaveSettings({ enableLoadBalancing: e.target.checked })}
+              />
+            }
+            label="Balance daily workload"
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.burySiblings}
+                onChange={(e) => handleSaveSettings({ burySiblings: e.target.checked })}
+              />
+            }
+            label="Bury words saved from the same sentence until tomorrow"
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.enableReverseCards}
+                onChange={(e) => handleSaveSettings({ enableReverseCards: e.target.checked })}
+              />
+            }
+            label="Also review translation → original (reverse cards)"
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.enableDictationCards}
+                onChange={(e) => handleSaveSettings({ enableDictationCards: e.target.checked })}
+              />
+            }
+            label="Also review by listening (dictation cards)"
+          />
+
           <FormControlLabel
             control={
               <Switch
@@ -232,6 +448,112 @@ const SettingsPage = () => {
         </CardContent>
       </Card>
 
+      {/* 牌组 */}
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <Typography variant="subtitle1" gutterBottom>
+            Decks
+          </Typography>
+
+          <Typography variant="caption" color="text.secondary" display="block" mb={1}>
+            Each deck can use its own algorithm, steps and daily limits. Move words into a deck from My Words.
+          </Typography>
+
+          {settings.decks.map((deck) => (
+            <Box key={deck.id} display="flex" alignItems="center" justifyContent="space-between">
+              <Box>
+                <Typography variant="body2">
+                  {deck.name}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {filterItemsByDeck(learningItems, deck.id).length} items
+                  {Object.keys(deck.settings).length > 0 && ' · custom options'}
+                </Typography>
+              </Box>
+              <Box>
+                <IconButton size="small" onClick={() => setEditingDeck(deck)} title="Deck options">
+                  <Edit fontSize="small" />
+                </IconButton>
+                <IconButton size="small" color="error" onClick={() => handleDeleteDeck(deck)} title="Delete deck">
+                  <Delete fontSize="small" />
+                </IconButton>
+              </Box>
+            </Box>
+          ))}
+
+          <Box display="flex" gap={1} mt={1}>
+            <TextField
+              fullWidth
+              size="small"
+              placeholder="New deck name"
+              value={newDeckName}
+              onChange={(e) => setNewDeckName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddDeck()}
+            />
+            <Button
+              variant="outlined"
+              size="small"
+              onClick={handleAddDeck}
+              disabled={!newDeckName.trim()}
+            >
+              Add
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+
+      {editingDeck && (
+        <DeckSettingsDialog
+          key={editingDeck.id}
+          deck={editingDeck}
+          globalSettings={settings}
+          onClose={() => setEditingDeck(null)}
+          onSave={handleSaveDeck}
+        />
+      )}
+
+      {/* 复习快捷键 */}
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+            <Typography variant="subtitle1">
+              Review Shortcuts
+            </Typography>
+            <Button
+              size="small"
+              onClick={() => handleSaveSettings({ reviewShortcuts: DEFAULT_REVIEW_SHORTCUTS })}
+            >
+              Reset
+            </Button>
+          </Box>
+
+          <Typography variant="caption" color="text.secondary" display="block" mb={2}>
+            Click a field and press the new key. Backspace clears a shortcut. Enter always confirms.
+          </Typography>
+
+          {(Object.keys(SHORTCUT_LABELS) as ReviewShortcutAction[]).map((action) => {
+            const isConflict = shortcutConflicts.includes(action);
+            return (
+              <Box key={action} display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+                <Typography variant="body2">
+                  {SHORTCUT_LABELS[action]}
+                </Typography>
+                <TextField
+                  size="small"
+                  value={settings.reviewShortcuts[action]}
+                  placeholder="None"
+                  onKeyDown={(e) => handleShortcutKeyDown(action, e)}
+                  error={isConflict}
+                  title={isConflict ? 'This key is used by another action' : undefined}
+                  inputProps={{ readOnly: true, style: { textAlign: 'center', fontFamily: 'monospace' } }}
+                  sx={{ width: 120 }}
+                />
+              </Box>
+            );
+          })}
+        </CardContent>
+      </Card>
+
       {/* 数据管理 */}
       <Card sx={{ mb: 2 }}>
         <CardContent>
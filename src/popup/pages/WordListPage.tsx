@@ -15,21 +15,68 @@ import {
   CardContent,
   Menu,
   MenuItem,
+  Checkbox,
+  ListItemIcon,
+  Button,
+  Select,
+  FormControl,
 } from '@mui/material';
 import {
   Delete,
   VolumeUp,
   Search,
   FilterList,
+  MoreVert,
+  Checklist,
 } from '@mui/icons-material';
-import { getLearningItems, deleteLearningItem } from '../../services/storageService';
-import { LearningItem } from '../../types';
+import {
+  getLearningItems,
+  deleteLearningItem,
+  getUserSettings,
+  updateLearningItems
+} from '../../services/storageService';
+import { updateItemStatus } from '../../services/messageService';
+import {
+  LEECH_TAG,
+  getCardSchedule,
+  getItemVariants,
+  getTodayReviewItems,
+  isBuried,
+  isLeech
+} from '../../services/reviewEngine';
+import {
+  addItemTags,
+  moveItemToDeck,
+  parseTags,
+  removeItemTag
+} from '../../services/decks';
+import { getStudyFilterOptions } from '../../services/customStudy';
+import { DAY_MS } from '../../services/dayBoundary';
+import { useUIStore } from '../../stores/uiStore';
+import ItemDetails from '../components/ItemDetails';
+import { CardVariant, ItemStatusAction, LearningItem } from '../../types';
+
+type FilterType = 'all' | 'word' | 'sentence' | 'leech' | 'suspended';
+
+// 正向以外的卡片及其开关操作
+const EXTRA_VARIANTS: { variant: CardVariant; label: string; enable: ItemStatusAction; disable: ItemStatusAction }[] = [
+  { variant: 'reverse', label: 'Reverse', enable: 'enableReverse', disable: 'disableReverse' },
+  { variant: 'dictation', label: 'Dictation', enable: 'enableDictation', disable: 'disableDictation' },
+];
 
 const WordListPage = () => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<'all' | 'word' | 'sentence'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [filterType, setFilterType] = useState<FilterType>('all');
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [itemMenu, setItemMenu] = useState<{ anchor: HTMLElement; item: LearningItem } | null>(null);
+  const [deckFilter, setDeckFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  // 批量选择模式下选中的项目
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [bulkTags, setBulkTags] = useState('');
   
+  const { setCurrentPage, setSelectedItem } = useUIStore();
   const queryClient = useQueryClient();
 
   // 获取学习项目
@@ -38,6 +85,12 @@ const WordListPage = () => {
     queryFn: getLearningItems,
   });
 
+  // 获取用户设置（反向 / 听写卡片的全局开关）
+  const { data: settings } = useQuery({
+    queryKey: ['userSettings'],
+    queryFn: getUserSettings,
+  });
+
   // 删除项目的 mutation
   const deleteMutation = useMutation({
     mutationFn: deleteLearningItem,
@@ -46,12 +99,44 @@ const WordListPage = () => {
     },
   });
 
+  // 暂停 / 搁置项目的 mutation
+  const statusMutation = useMutation({
+    mutationFn: async ({ itemId, status }: { itemId: string; status: ItemStatusAction }) => {
+      const response = await updateItemStatus(itemId, status);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to update item status');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['learningItems'] });
+    },
+  });
+
+  // 批量添加标签 / 移动牌组的 mutation
+  const organizeMutation = useMutation({
+    mutationFn: ({ itemIds, update }: { itemIds: string[]; update: (item: LearningItem) => LearningItem }) =>
+      updateLearningItems(itemIds, update),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['learningItems'] });
+    },
+  });
+
+  const decks = settings?.decks ?? [];
+  const deckNames = new Map(decks.map(deck => [deck.id, deck.name]));
+  const { tags } = getStudyFilterOptions(learningItems);
+
   // 过滤和搜索
   const filteredItems = learningItems.filter(item => {
     const matchesSearch = item.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.translation.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesFilter = filterType === 'all' || item.type === filterType;
-    return matchesSearch && matchesFilter;
+    const matchesFilter = filterType === 'all' ||
+                         (filterType === 'leech' && isLeech(item)) ||
+                         (filterType === 'suspended' && !!item.isSuspended) ||
+                         item.type === filterType;
+    const matchesDeck = !deckFilter || (deckFilter === 'none' ? !item.deckId : item.deckId === deckFilter);
+    const matchesTag = !tagFilter || !!item.tags?.includes(tagFilter);
+    return matchesSearch && matchesFilter && matchesDeck && matchesTag;
   });
 
   // 按创建时间排序（最新的在前）
@@ -75,18 +160,70 @@ const WordListPage = () => {
     return new Date(timestamp).toLocaleDateString();
   };
 
-  const getNextReviewText = (item: LearningItem) => {
+  const getNextReviewText = (nextReview: number) => {
     const now = Date.now();
-    const nextReview = item.nextReviewAt;
     
     if (nextReview <= now) {
       return 'Ready to review';
     }
     
-    const days = Math.ceil((nextReview - now) / (1000 * 60 * 60 * 24));
+    // 学习步骤中的卡片以分钟计
+    if (nextReview - now < 60 * 60 * 1000) {
+      const minutes = Math.ceil((nextReview - now) / (1000 * 60));
+      return `Review in ${minutes} min`;
+    }
+    
+    const days = Math.ceil((nextReview - now) / DAY_MS);
     return `Review in ${days} day${days > 1 ? 's' : ''}`;
   };
 
+  const toggleSelected = (itemId: string) => {
+    if (!selectedIds) return;
+    const next = new Set(selectedIds);
+    if (next.has(itemId)) {
+      next.delete(itemId);
+    } else {
+      next.add(itemId);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleBulkTag = async () => {
+    const tagsToAdd = parseTags(bulkTags);
+    if (!selectedIds || tagsToAdd.length === 0) return;
+    await organizeMutation.mutateAsync({
+      itemIds: Array.from(selectedIds),
+      update: item => addItemTags(item, tagsToAdd)
+    });
+    setBulkTags('');
+  };
+
+  const handleBulkMove = async (deckId: string) => {
+    if (!selectedIds) return;
+    await organizeMutation.mutateAsync({
+      itemIds: Array.from(selectedIds),
+      update: item => moveItemToDeck(item, deckId || undefined)
+    });
+  };
+
+  const handleRemoveTag = async (itemId: string, tag: string) => {
+    await organizeMutation.mutateAsync({ itemIds: [itemId], update: item => removeItemTag(item, tag) });
+  };
+
+  const handleItemStatus = async (status: ItemStatusAction) => {
+    if (!itemMenu) return;
+    const { item } = itemMenu;
+    setItemMenu(null);
+    await statusMutation.mutateAsync({ itemId: item.id, status });
+  };
+
+  const handleEditItem = () => {
+    if (!itemMenu) return;
+    setSelectedItem(itemMenu.item);
+    setItemMenu(null);
+    setCurrentPage('itemDetail');
+  };
+
   const handleFilterClick = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorEl(event.currentTarget);
   };
@@ -95,7 +232,7 @@ const WordListPage = () => {
     setAnchorEl(null);
   };
 
-  const handleFilterSelect = (filter: 'all' | 'word' | 'sentence') => {
+  const handleFilterSelect = (filter: FilterType) => {
     setFilterType(filter);
     handleFilterClose();
   };
@@ -134,6 +271,13 @@ const WordListPage = () => {
           <IconButton onClick={handleFilterClick}>
             <FilterList />
           </IconButton>
+          <IconButton
+            onClick={() => setSelectedIds(selectedIds ? null : new Set())}
+            color={selectedIds ? 'primary' : 'default'}
+            title="Select words to tag or move"
+          >
+            <Checklist />
+          </IconButton>
         </Box>
 
         <Box display="flex" gap={1}>
@@ -155,7 +299,41 @@ const WordListPage = () => {
             size="small"
             onClick={() => setFilterType('sentence')}
           />
+          <Chip
+            label={`Leeches (${learningItems.filter(isLeech).length})`}
+            variant={filterType === 'leech' ? 'filled' : 'outlined'}
+            size="small"
+            color="error"
+            onClick={() => setFilterType('leech')}
+          />
         </Box>
+
+        {/* 按牌组和标签过滤 */}
+        {(decks.length > 0 || tags.length > 0) && (
+          <Box display="flex" gap={1} mt={1}>
+            {decks.length > 0 && (
+              <FormControl fullWidth size="small">
+                <Select value={deckFilter} displayEmpty onChange={(e) => setDeckFilter(e.target.value)}>
+                  <MenuItem value="">All decks</MenuItem>
+                  <MenuItem value="none">No deck</MenuItem>
+                  {decks.map(deck => (
+                    <MenuItem key={deck.id} value={deck.id}>{deck.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            {tags.length > 0 && (
+              <FormControl fullWidth size="small">
+                <Select value={tagFilter} displayEmpty onChange={(e) => setTagFilter(e.target.value)}>
+                  <MenuItem value="">All tags</MenuItem>
+                  {tags.map(tag => (
+                    <MenuItem key={tag} value={tag}>#{tag}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+          </Box>
+        )}
       </Box>
 
       {/* 单词列表 */}
@@ -163,12 +341,12 @@ const WordListPage = () => {
         {sortedItems.length === 0 ? (
           <Box p={3} textAlign="center">
             <Typography variant="body1" color="text.secondary" gutterBottom>
-              {searchTerm || filterType !== 'all' 
+              {searchTerm || filterType !== 'all' || deckFilter || tagFilter
                 ? 'No items match your search criteria'
                 : 'No words saved yet'
               }
             </Typography>
-            {!searchTerm && filterType === 'all' && (
+            {!searchTerm && filterType === 'all' && !deckFilter && !tagFilter && (
               <Typography variant="body2" color="text.secondary">
                 Start learning by selecting text on any webpage!
               </Typography>
@@ -185,7 +363,19 @@ const WordListPage = () => {
                   '&:hover': { bgcolor: 'grey.50' }
                 }}
               >
+                {selectedIds && (
+                  <ListItemIcon sx={{ minWidth: 36 }}>
+                    <Checkbox
+                      edge="start"
+                      size="small"
+                      checked={selectedIds.has(item.id)}
+                      onChange={() => toggleSelected(item.id)}
+                    />
+                  </ListItemIcon>
+                )}
                 <ListItemText
+                  onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                  sx={{ cursor: 'pointer' }}
                   primary={
                     <Box display="flex" alignItems="center" gap={1}>
                       <Typography variant="subtitle1" component="span">
@@ -193,7 +383,10 @@ const WordListPage = () => {
                       </Typography>
                       <IconButton
                         size="small"
-                        onClick={() => speakText(item.content)}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          speakText(item.content);
+                        }}
                       >
                         <VolumeUp fontSize="small" />
                       </IconButton>
@@ -203,6 +396,19 @@ const WordListPage = () => {
                         variant="outlined"
                         color={item.type === 'word' ? 'primary' : 'secondary'}
                       />
+                      {isLeech(item) && (
+                        <Chip
+                          label={`leech · ${item.schedulerState.lapses} lapses`}
+                          size="small"
+                          color="error"
+                        />
+                      )}
+                      {item.isSuspended && (
+                        <Chip label="suspended" size="small" variant="outlined" />
+                      )}
+                      {isBuried(item) && (
+                        <Chip label="buried" size="small" variant="outlined" />
+                      )}
                     </Box>
                   }
                   secondary={
@@ -210,6 +416,27 @@ const WordListPage = () => {
                       <Typography variant="body2" color="text.primary">
                         {item.translation}
                       </Typography>
+                      {/* 牌组和标签，leech 标签已单独显示 */}
+                      {(deckNames.has(item.deckId ?? '') || item.tags?.some(tag => tag !== LEECH_TAG)) && (
+                        <Box display="flex" gap={0.5} flexWrap="wrap" my={0.5}>
+                          {deckNames.has(item.deckId ?? '') && (
+                            <Chip label={deckNames.get(item.deckId ?? '')} size="small" color="primary" />
+                          )}
+                          {item.tags?.filter(tag => tag !== LEECH_TAG).map(tag => (
+                            <Chip
+                              key={tag}
+                              label={`#${tag}`}
+                              size="small"
+                              variant="outlined"
+                              onDelete={() => handleRemoveTag(item.id, tag)}
+                            />
+                          ))}
+                        </Box>
+                      )}
+                      {/* 点击展开完整词条 */}
+                      {expandedId === item.id && (
+                        <ItemDetails item={item} sx={{ my: 0.5 }} />
+                      )}
                       {item.context && (
                         <Typography variant="caption" color="text.secondary" sx={{ fontStyle: 'italic' }}>
                           Context: {item.context}
@@ -223,13 +450,28 @@ const WordListPage = () => {
                           variant="caption"
                           color={item.nextReviewAt <= Date.now() ? 'warning.main' : 'text.secondary'}
                         >
-                          {getNextReviewText(item)}
+                          {getNextReviewText(item.nextReviewAt)}
                         </Typography>
                       </Box>
+                      {EXTRA_VARIANTS
+                        .filter(({ variant }) => getItemVariants(item, settings).includes(variant))
+                        .map(({ variant, label }) => (
+                          <Box key={variant} display="flex" justifyContent="flex-end">
+                            <Typography variant="caption" color="text.secondary">
+                              {label}: {getNextReviewText(getCardSchedule(item, variant).nextReviewAt)}
+                            </Typography>
+                          </Box>
+                        ))}
                     </Box>
                   }
                 />
                 <ListItemSecondaryAction>
+                  <IconButton
+                    onClick={(e) => setItemMenu({ anchor: e.currentTarget, item })}
+                    disabled={statusMutation.isPending}
+                  >
+                    <MoreVert />
+                  </IconButton>
                   <IconButton
                     edge="end"
                     onClick={() => handleDelete(item.id)}
@@ -260,15 +502,104 @@ const WordListPage = () => {
         <MenuItem onClick={() => handleFilterSelect('sentence')}>
           Sentences Only
         </MenuItem>
+        <MenuItem onClick={() => handleFilterSelect('leech')}>
+          Leeches Only
+        </MenuItem>
+        <MenuItem onClick={() => handleFilterSelect('suspended')}>
+          Suspended Only
+        </MenuItem>
       </Menu>
 
+      {/* 单个项目的复习状态菜单 */}
+      <Menu
+        anchorEl={itemMenu?.anchor}
+        open={Boolean(itemMenu)}
+        onClose={() => setItemMenu(null)}
+      >
+        <MenuItem onClick={handleEditItem}>Edit details</MenuItem>
+        {itemMenu?.item.isSuspended ? (
+          <MenuItem onClick={() => handleItemStatus('unsuspend')}>Unsuspend</MenuItem>
+        ) : (
+          <MenuItem onClick={() => handleItemStatus('suspend')}>Suspend</MenuItem>
+        )}
+        {itemMenu && isBuried(itemMenu.item) ? (
+          <MenuItem onClick={() => handleItemStatus('unbury')}>Unbury</MenuItem>
+        ) : (
+          <MenuItem onClick={() => handleItemStatus('bury')}>Bury until tomorrow</MenuItem>
+        )}
+        {itemMenu && EXTRA_VARIANTS.map(({ variant, label, enable, disable }) =>
+          getItemVariants(itemMenu.item, settings).includes(variant) ? (
+            <MenuItem key={variant} onClick={() => handleItemStatus(disable)}>
+              Disable {label.toLowerCase()} card
+            </MenuItem>
+          ) : (
+            <MenuItem key={variant} onClick={() => handleItemStatus(enable)}>
+              Enable {label.toLowerCase()} card
+            </MenuItem>
+          )
+        )}
+      </Menu>
+
+      {/* 批量操作 */}
+      {selectedIds && (
+        <Box p={1.5} sx={{ borderTop: 1, borderColor: 'divider' }}>
+          <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+            <Typography variant="body2">
+              {selectedIds.size} selected
+            </Typography>
+            <Box>
+              <Button size="small" onClick={() => setSelectedIds(new Set(sortedItems.map(item => item.id)))}>
+                Select all
+              </Button>
+              <Button size="small" onClick={() => setSelectedIds(new Set())}>
+                Clear
+              </Button>
+            </Box>
+          </Box>
+          <Box display="flex" gap={1}>
+            <TextField
+              size="small"
+              placeholder="Tags, comma separated"
+              value={bulkTags}
+              onChange={(e) => setBulkTags(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleBulkTag()}
+              sx={{ flex: 1 }}
+            />
+            <Button
+              size="small"
+              variant="outlined"
+              onClick={handleBulkTag}
+              disabled={selectedIds.size === 0 || parseTags(bulkTags).length === 0 || organizeMutation.isPending}
+            >
+              Tag
+            </Button>
+            {decks.length > 0 && (
+              <FormControl size="small" sx={{ flex: 1 }}>
+                <Select
+                  value=""
+                  displayEmpty
+                  disabled={selectedIds.size === 0 || organizeMutation.isPending}
+                  onChange={(e) => handleBulkMove(e.target.value === 'none' ? '' : e.target.value)}
+                >
+                  <MenuItem value="" disabled>Move to deck</MenuItem>
+                  <MenuItem value="none">No deck</MenuItem>
+                  {decks.map(deck => (
+                    <MenuItem key={deck.id} value={deck.id}>{deck.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+          </Box>
+        </Box>
+      )}
+
       {/* 统计信息 */}
-      {learningItems.length > 0 && (
+      {!selectedIds && learningItems.length > 0 && (
         <Card sx={{ m: 2, mt: 0 }}>
           <CardContent sx={{ py: 1 }}>
             <Typography variant="caption" color="text.secondary">
               Total: {learningItems.length} items • 
-              Ready to review: {learningItems.filter(i => i.nextReviewAt <= Date.now()).length}
+              Ready to review: {getTodayReviewItems(learningItems, settings?.dayStartHour, settings).length} cards
             </Typography>
           </CardContent>
         </Card>
@@ -0,0 +1,19 @@
+// 学习步骤输入支持的单位，换算为分钟；没有单位时按分钟计
+const STEP_UNITS: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 24 * 60,
+};
+
+/**
+ * 解析学习步骤输入，如 "1 10" 或 "1m, 10m, 1h, 1d"，返回分钟数
+ * 无法识别的单位和非正数被忽略
+ */
+export const parseSteps = (value: string): number[] =>
+  value
+    .split(/[\s,，]+/)
+    .map((step) => {
+      const match = step.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)([mhd]?)$/);
+      return match ? parseFloat(match[1]) * STEP_UNITS[match[2] || 'm'] : NaN;
+    })
+    .filter((step) => !isNaN(step) && step > 0);
@@ -10,6 +10,16 @@ export type { AITranslationRequest, AITranslationResponse };
 
 // AI 提供商配置
 import { StreamTranslationChunk } from '../types';
+
+// 各提供商使用的模型，保存学习项目时一并记录
+const AI_MODELS: Record<string, string> = {
+  openai: 'gpt-3.5-turbo',
+  deepseek: 'deepseek-v3',
+  gemini: 'gemini-pro',
+  qwen: 'qwen-mt-plus',
+  'qwen-plus': 'qwen-plus'
+};
+
 const AI_PROVIDERS: Record<string, AIProviderConfig> = {
   openai: {
     name: 'OpenAI',
@@ -18,7 +28,7 @@ const AI_PROVIDERS: Record<string, AIProviderConfig> = {
       'Content-Type': 'application/json',
     },
     requestFormatter: (request: AITranslationRequest, _apiKey: string) => ({
-      model: 'gpt-3.5-turbo',
+      model: AI_MODELS.openai,
       messages: [
         {
           role: 'system',
@@ -61,7 +71,7 @@ const AI_PROVIDERS: Record<string, AIProviderConfig> = {
       'Content-Type': 'application/json',
     },
     requestFormatter: (request: AITranslationRequest, _apiKey: string) => ({
-      model: 'deepseek-v3',
+      model: AI_MODELS.deepseek,
       messages: [
         {
           role: 'system',
@@ -99,7 +109,7 @@ const AI_PROVIDERS: Record<string, AIProviderConfig> = {
 
   gemini: {
     name: 'Google Gemini',
-    apiUrl: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent',
+    apiUrl: `https://generativelanguage.googleapis.com/v1beta/models/${AI_MODELS.gemini}:generateContent`,
     headers: {
       'Content-Type': 'application/json',
     },
@@ -143,7 +153,7 @@ const AI_PROVIDERS: Record<string, AIProviderConfig> = {
       'Content-Type': 'application/json',
     },
     requestFormatter: (request: AITranslationRequest, _apiKey: string) => ({
-      model: 'qwen-mt-plus',
+      model: AI_MODELS.qwen,
       messages: [
         {
           role: 'user',
@@ -178,7 +188,7 @@ const AI_PROVIDERS: Record<string, AIProviderConfig> = {
       'Content-Type': 'application/json',
     },
     requestFormatter: (request: AITranslationRequest, _apiKey: string) => ({
-      model: 'qwen-plus',
+      model: AI_MODELS['qwen-plus'],
       messages: [
         {
           role: 'system',
@@ -471,6 +481,13 @@ export async function* streamTranslateWithAI(
 }
 
 
+/**
+ * 获取提供商使用的模型
+ */
+export function getProviderModel(provider: string): string | undefined {
+  return AI_MODELS[provider];
+}
+
 /**
  * 获取支持的 AI 提供商列表
  */
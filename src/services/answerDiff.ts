@@ -0,0 +1,148 @@
+import { ReviewResult } from '../types';
+
+/**
+ * 拼写答案比对 - 字符级差异和建议评分
+ * 比较时忽略大小写、变音符号和多余空格，少量拼写错误仍视为答对
+ */
+
+export interface AnswerDiffPart {
+  type: 'match' | 'missing' | 'extra'; // 一致 / 漏写（应有但未输入）/ 多写（输入了但不应有）
+  text: string;
+}
+
+export interface AnswerCheck {
+  diff: AnswerDiffPart[];
+  distance: number; // 忽略大小写和变音符号后的编辑距离
+  isExact: boolean; // 与原文完全一致
+  isCorrect: boolean; // 在允许的拼写误差内
+  quality: ReviewResult['quality']; // 建议的复习评分
+}
+
+/**
+ * 去掉变音符号并转为小写，用于宽松比较
+ */
+function foldText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * 整理输入：去掉首尾空白和结尾标点，合并连续空格
+ */
+function cleanAnswer(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').replace(/[.!?。！？]+$/, '');
+}
+
+/**
+ * 允许的拼写误差，随答案长度增加
+ */
+function allowedTypos(length: number): number {
+  if (length < 4) return 0;
+  return Math.max(1, Math.floor(length * 0.15));
+}
+
+/**
+ * 计算编辑距离矩阵，dp[i][j] 为 a 的前 i 个字符与 b 的前 j 个字符之间的距离
+ * @param countTranspositions 相邻字母颠倒（如 recieve）按一次错误计算
+ */
+function editDistanceTable(a: string[], b: string[], countTranspositions: boolean = false): number[][] {
+  const dp = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = foldText(a[i - 1]) === foldText(b[j - 1]) ? 0 : 1;
+      dp[i][j] = Math.min(dp[i - 1][j] + 1, dp[i][j - 1] + 1, dp[i - 1][j - 1] + cost);
+
+      if (
+        countTranspositions &&
+        i > 1 &&
+        j > 1 &&
+        foldText(a[i - 1]) === foldText(b[j - 2]) &&
+        foldText(a[i - 2]) === foldText(b[j - 1])
+      ) {
+        dp[i][j] = Math.min(dp[i][j], dp[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return dp;
+}
+
+/**
+ * 生成输入与标准答案之间的字符级差异
+ * @param typed 用户输入
+ * @param expected 标准答案
+ */
+export function diffAnswer(typed: string, expected: string): AnswerDiffPart[] {
+  const a = Array.from(cleanAnswer(typed));
+  const b = Array.from(cleanAnswer(expected));
+  return buildDiff(a, b, editDistanceTable(a, b));
+}
+
+function buildDiff(a: string[], b: string[], dp: number[][]): AnswerDiffPart[] {
+  const parts: AnswerDiffPart[] = [];
+
+  const push = (type: AnswerDiffPart['type'], char: string) => {
+    const last = parts[0];
+    if (last && last.type === type) {
+      last.text = char + last.text;
+    } else {
+      parts.unshift({ type, text: char });
+    }
+  };
+
+  // 从矩阵右下角回溯；替换拆成一个多写加一个漏写
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && foldText(a[i - 1]) === foldText(b[j - 1]) && dp[i][j] === dp[i - 1][j - 1]) {
+      push('match', b[j - 1]);
+      i--;
+      j--;
+    } else if (j > 0 && (i === 0 || dp[i][j] === dp[i][j - 1] + 1)) {
+      push('missing', b[j - 1]);
+      j--;
+    } else if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + 1) {
+      push('missing', b[j - 1]);
+      push('extra', a[i - 1]);
+      i--;
+      j--;
+    } else {
+      push('extra', a[i - 1]);
+      i--;
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * 检查拼写答案并给出建议评分
+ * 完全一致或只差大小写/变音符号为 Good (4)，少量拼写错误为 Hard (3)，其余为 Forgot (0)
+ * @param typed 用户输入
+ * @param expected 标准答案
+ */
+export function checkAnswer(typed: string, expected: string): AnswerCheck {
+  const cleanTyped = cleanAnswer(typed);
+  const cleanExpected = cleanAnswer(expected);
+  const a = Array.from(cleanTyped);
+  const b = Array.from(cleanExpected);
+  const distance = editDistanceTable(a, b, true)[a.length][b.length];
+
+  const isExact = cleanTyped === cleanExpected;
+  const isCorrect = cleanTyped.length > 0 && distance <= allowedTypos(b.length);
+
+  let quality: ReviewResult['quality'] = 0;
+  if (isCorrect) {
+    quality = distance === 0 ? 4 : 3;
+  }
+
+  return {
+    diff: buildDiff(a, b, editDistanceTable(a, b)),
+    distance,
+    isExact,
+    isCorrect,
+    quality
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { buildCloze } from './cloze';
+
+describe('buildCloze', () => {
+  it.each<[string, string, string | null]>([
+    // 保存的内容, 句子, 挖空的词形
+    ['hat', 'He hates wearing a hat.', 'hat'],
+    ['car', 'She cares about her car.', 'car'],
+    ['run', 'Ancient runes were carved in stone. We run.', 'run'],
+    ['run', 'Ancient runes were carved in stone.', null],
+    ['stop', 'The bus stopped suddenly.', 'stopped'],
+    ['hope', 'She hoped for the best.', 'hoped'],
+    ['study', 'He studies every night.', 'studies'],
+    ['box', 'The boxes are empty.', 'boxes'],
+    ['book', 'Books are everywhere.', 'Books'],
+    ['knife', 'Put the knives away.', 'knives'],
+    ['hard', 'I hardly know her.', null],
+    ['fast', 'He runs faster than me.', null],
+    ['look up to', 'Kids look up to their parents.', 'look up to'],
+    ['cat', 'Concatenate the strings.', null],
+  ])('%s in %j', (content, sentence, expected) => {
+    expect(buildCloze(content, sentence)?.answer ?? null).toBe(expected);
+  });
+
+  it('keeps the text around the blank', () => {
+    expect(buildCloze('hat', 'He hates wearing a hat.')).toEqual({
+      before: 'He hates wearing a ',
+      answer: 'hat',
+      after: '.',
+      source: 'context'
+    });
+  });
+
+  it('skips sentences that contain nothing but the word', () => {
+    expect(buildCloze('hello', 'Hello')).toBeNull();
+  });
+});
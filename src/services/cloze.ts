@@ -0,0 +1,150 @@
+import { LearningItem } from '../types';
+import { AnswerCheck, checkAnswer } from './answerDiff';
+
+/**
+ * 完形填空 - 在原始上下文或 AI 例句中挖空保存的单词
+ * 句中没有原形时匹配单词的常见屈折形式（复数、过去式、进行时）
+ */
+
+export interface Cloze {
+  before: string; // 空格之前的文本
+  answer: string; // 句中实际出现的词形
+  after: string; // 空格之后的文本
+  source: 'context' | 'example'; // 句子来源
+}
+
+const VOWELS = 'aeiou';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 生成英文单词的常见屈折形式（不含原形）
+ * 只处理复数/第三人称、过去式和进行时，不处理不规则变化（如 run → ran）
+ */
+function getInflections(word: string): string[] {
+  const lower = word.toLowerCase();
+  const last = lower[lower.length - 1];
+  const beforeLast = lower[lower.length - 2];
+  // 以 s/x/z/ch/sh 结尾时加 -es，如 box → boxes，否则 run 会匹配到 runes
+  const forms = new Set([/(s|x|z|ch|sh)$/.test(lower) ? `${lower}es` : `${lower}s`, `${lower}ed`, `${lower}ing`]);
+
+  if (last === 'e') {
+    const stem = lower.slice(0, -1);
+    forms.add(`${lower}d`);
+    forms.add(`${stem}ing`);
+  }
+
+  if (last === 'y' && beforeLast && !VOWELS.includes(beforeLast)) {
+    const stem = lower.slice(0, -1);
+    ['ies', 'ied'].forEach(suffix => forms.add(stem + suffix));
+  }
+
+  if (last === 'f' || lower.endsWith('fe')) {
+    forms.add(lower.replace(/fe?$/, 'ves'));
+  }
+
+  // 辅音 + 元音 + 辅音结尾的短词双写末尾辅音，如 stop → stopped
+  const isShortCvc =
+    lower.length <= 5 &&
+    !VOWELS.includes(last) &&
+    !'wxy'.includes(last) &&
+    VOWELS.includes(beforeLast) &&
+    !VOWELS.includes(lower[lower.length - 3] || 'a');
+  if (isShortCvc) {
+    ['ing', 'ed'].forEach(suffix => forms.add(lower + last + suffix));
+  }
+
+  return Array.from(forms);
+}
+
+/**
+ * 在句子中查找任一词形的完整单词
+ */
+function findWord(forms: string[], sentence: string): RegExpExecArray | null {
+  const pattern = new RegExp(`(^|[^\\p{L}])(${forms.map(escapeRegExp).join('|')})(?![\\p{L}])`, 'iu');
+  return pattern.exec(sentence);
+}
+
+/**
+ * 在句子中查找内容（或其屈折形式）并挖空
+ * 优先匹配原形，句中没有原形时才匹配屈折形式
+ * @param content 保存的单词或短语
+ * @param sentence 句子
+ * @param source 句子来源
+ * @returns 挖空结果，找不到时返回 null
+ */
+export function buildCloze(
+  content: string,
+  sentence: string,
+  source: Cloze['source'] = 'context'
+): Cloze | null {
+  const target = content.trim();
+  if (!target || !sentence) return null;
+
+  // 短语只整体匹配，单词再匹配屈折形式；较长的词形优先
+  const isWord = !/\s/.test(target);
+  const match = findWord([target], sentence) ||
+    (isWord ? findWord(getInflections(target).sort((a, b) => b.length - a.length), sentence) : null);
+
+  if (!match) return null;
+
+  const start = match.index + match[1].length;
+  const answer = match[2];
+  // 挖空后没有剩余文字的句子没有提示作用
+  if (sentence.trim().length <= answer.length) return null;
+
+  return {
+    before: sentence.slice(0, start),
+    answer,
+    after: sentence.slice(start + answer.length),
+    source
+  };
+}
+
+/**
+ * 从 AI 例句中取出英文句子
+ * 例句格式为 "中文例句 (English example sentence) - 说明"
+ */
+export function extractEnglishExample(example: string): string {
+  const english = example.match(/\(([^()]*[A-Za-z][^()]*)\)/);
+  return (english ? english[1] : example).trim();
+}
+
+/**
+ * 为学习项目生成完形填空
+ * 优先使用保存时的上下文，没有或匹配不到时使用 AI 例句
+ * @param item 学习项目
+ * @param context 使用的上下文，默认为保存时的上下文，复习时可传入轮换的遇到记录
+ * @returns 挖空结果，没有可用句子时返回 null
+ */
+export function getItemCloze(item: LearningItem, context: string | undefined = item.context): Cloze | null {
+  if (item.type === 'sentence') return null;
+
+  const fromContext = context ? buildCloze(item.content, context, 'context') : null;
+  if (fromContext) return fromContext;
+
+  for (const example of item.examples || []) {
+    const cloze = buildCloze(item.content, extractEnglishExample(example), 'example');
+    if (cloze) return cloze;
+  }
+  return null;
+}
+
+/**
+ * 检查完形填空的答案
+ * 需要填写句中的实际词形；只填对原形时视为 Hard
+ * @param typed 用户输入
+ * @param cloze 挖空结果
+ * @param content 保存的单词原形
+ */
+export function checkClozeAnswer(typed: string, cloze: Cloze, content: string): AnswerCheck {
+  const check = checkAnswer(typed, cloze.answer);
+  if (check.isCorrect || cloze.answer.toLowerCase() === content.toLowerCase()) {
+    return check;
+  }
+
+  const baseForm = checkAnswer(typed, content);
+  return baseForm.isCorrect ? { ...check, isCorrect: true, quality: 3 } : check;
+}
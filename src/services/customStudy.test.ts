@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { LearningItem } from '../types';
+import { filterStudyItems, getStudyFilterOptions } from './customStudy';
+import { DAY_MS } from './dayBoundary';
+
+const NOW = new Date(2024, 2, 10, 12).getTime();
+const FIRST = 'https://example.com/first';
+const SECOND = 'https://example.com/second';
+
+const makeItem = (id: string, overrides: Partial<LearningItem> = {}): LearningItem => ({
+  id,
+  type: 'word',
+  content: id,
+  translation: id,
+  createdAt: NOW - 10 * DAY_MS,
+  lastReviewedAt: 0,
+  nextReviewAt: NOW,
+  interval: 0,
+  easeFactor: 2.5,
+  schedulerState: { scheduler: 'sm2', state: 'new', step: 0, repetitions: 0, lapses: 0 },
+  userId: 'local',
+  ...overrides
+});
+
+const items = [
+  makeItem('legacy', { sourceUrl: FIRST, sourceTitle: 'First' }),
+  makeItem('encountered', {
+    sourceUrl: FIRST,
+    sourceTitle: 'First',
+    encounters: [
+      { sourceUrl: FIRST, sourceTitle: 'First', encounteredAt: NOW - 10 * DAY_MS },
+      { context: 'Seen again.', sourceUrl: SECOND, sourceTitle: 'Second', encounteredAt: NOW - DAY_MS },
+      { context: 'Seen once more.', sourceUrl: SECOND, sourceTitle: 'Second', encounteredAt: NOW - DAY_MS / 2 }
+    ]
+  }),
+  makeItem('unsourced')
+];
+
+describe('filterStudyItems', () => {
+  it.each<[string, string[]]>([
+    [FIRST, ['legacy', 'encountered']],
+    [SECOND, ['encountered']],
+    ['https://example.com/other', []],
+  ])('source %s', (sourceUrl, expected) => {
+    expect(filterStudyItems(items, { sourceUrl }, 4, NOW).map(item => item.id)).toEqual(expected);
+  });
+});
+
+describe('getStudyFilterOptions', () => {
+  it('lists the pages of every encounter, most recent first', () => {
+    expect(getStudyFilterOptions(items).sources).toEqual([
+      { url: SECOND, title: 'Second', count: 1, lastAddedAt: NOW - DAY_MS / 2 },
+      { url: FIRST, title: 'First', count: 2, lastAddedAt: NOW - 10 * DAY_MS }
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { CardVariantSettings, CustomStudyFilter, LearningItem, ReviewCard } from '../types';
+import { getReviewCards, isLeech } from './reviewEngine';
+import { DEFAULT_DAY_START_HOUR, getNextDayStart } from './dayBoundary';
+import { getItemEncounters } from './encounters';
+
+/**
+ * 自定义学习 - 按牌组、标签、来源、添加时间、类型或 leech 状态挑选项目进行突击复习
+ * 不管是否到期都可以复习；来源包括项目所有遇到记录的页面
+ */
+
+/**
+ * 筛选自定义学习的项目
+ * 暂停的项目不参与，只选 leech 时除外（leech 可能已被自动暂停）
+ * @param items 所有学习项目
+ * @param filter 筛选条件
+ * @param dayStartHour 每天开始的小时
+ * @param now 当前时间
+ */
+export function filterStudyItems(
+  items: LearningItem[],
+  filter: CustomStudyFilter,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR,
+  now: number = Date.now()
+): LearningItem[] {
+  const addedAfter = filter.addedWithinDays
+    ? getNextDayStart(now, dayStartHour, 1 - filter.addedWithinDays)
+    : 0;
+
+  return items.filter(item =>
+    (!item.isSuspended || filter.leechOnly) &&
+    (!filter.deckId || item.deckId === filter.deckId) &&
+    (!filter.tag || !!item.tags?.includes(filter.tag)) &&
+    (!filter.sourceUrl || getItemEncounters(item).some(encounter => encounter.sourceUrl === filter.sourceUrl)) &&
+    item.createdAt >= addedAfter &&
+    (!filter.type || item.type === filter.type) &&
+    (!filter.leechOnly || isLeech(item))
+  );
+}
+
+/**
+ * 生成突击复习队列，卡片随机排列
+ * @param items 所有学习项目
+ * @param filter 筛选条件
+ * @param variantSettings 全局的卡片设置
+ * @param dayStartHour 每天开始的小时
+ * @param limit 最多的卡片数量
+ */
+export function buildCramQueue(
+  items: LearningItem[],
+  filter: CustomStudyFilter,
+  variantSettings?: CardVariantSettings,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR,
+  limit: number = Infinity
+): ReviewCard[] {
+  const cards = getReviewCards(filterStudyItems(items, filter, dayStartHour), variantSettings);
+
+  for (let i = cards.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [cards[i], cards[j]] = [cards[j], cards[i]];
+  }
+  return cards.slice(0, limit);
+}
+
+/**
+ * 列出项目中出现过的标签和来源页面，用于筛选选项
+ * 来源包括所有遇到记录的页面，按最近遇到的时间排序
+ */
+export function getStudyFilterOptions(items: LearningItem[]) {
+  const tags = Array.from(new Set(items.flatMap(item => item.tags || []))).sort();
+
+  const sources = new Map<string, { url: string; title: string; count: number; lastAddedAt: number }>();
+  items.forEach(item => {
+    const counted = new Set<string>();
+    getItemEncounters(item).forEach(encounter => {
+      if (!encounter.sourceUrl) return;
+      const source = sources.get(encounter.sourceUrl) || {
+        url: encounter.sourceUrl,
+        title: encounter.sourceTitle || encounter.sourceUrl,
+        count: 0,
+        lastAddedAt: 0
+      };
+      // 同一项目在一个页面多次遇到时只计一次
+      if (!counted.has(encounter.sourceUrl)) source.count++;
+      counted.add(encounter.sourceUrl);
+      source.lastAddedAt = Math.max(source.lastAddedAt, encounter.encounteredAt);
+      sources.set(encounter.sourceUrl, source);
+    });
+  });
+
+  return {
+    tags,
+    sources: Array.from(sources.values()).sort((a, b) => b.lastAddedAt - a.lastAddedAt)
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getDayKey, getDayStart, getDaysBetween, getNextDayStart } from './dayBoundary';
+
+// 使用本地时间构造时间戳，结果不依赖运行环境的时区
+const local = (month: number, day: number, hour: number, minute: number = 0) =>
+  new Date(2024, month - 1, day, hour, minute).getTime();
+
+describe('getDayStart', () => {
+  it.each<[string, number, number, number]>([
+    // 名称, 时间, 每天开始的小时, 学习日开始时间
+    ['after the start hour', local(3, 10, 9), 4, local(3, 10, 4)],
+    ['exactly at the start hour', local(3, 10, 4), 4, local(3, 10, 4)],
+    ['late night counts as the previous day', local(3, 10, 2, 30), 4, local(3, 9, 4)],
+    ['midnight start hour', local(3, 10, 0, 10), 0, local(3, 10, 0)],
+    ['across a month boundary', local(3, 1, 1), 4, local(2, 29, 4)],
+  ])('%s', (_, timestamp, dayStartHour, expected) => {
+    expect(getDayStart(timestamp, dayStartHour)).toBe(expected);
+  });
+});
+
+describe('getNextDayStart', () => {
+  it.each<[string, number, number, number]>([
+    // 名称, 时间, 向后的天数, 结果
+    ['next day', local(3, 10, 9), 1, local(3, 11, 4)],
+    ['next day from late night', local(3, 10, 2), 1, local(3, 10, 4)],
+    ['several days ahead', local(3, 10, 9), 3, local(3, 13, 4)],
+    ['across a year boundary', local(12, 31, 9), 1, new Date(2025, 0, 1, 4).getTime()],
+  ])('%s', (_, timestamp, days, expected) => {
+    expect(getNextDayStart(timestamp, 4, days)).toBe(expected);
+  });
+
+  it('keeps the start hour across daylight saving changes', () => {
+    // 无论本地时区是否有夏令时，结果都是日历上的下一天 4 点
+    const start = new Date(getNextDayStart(local(3, 30, 12), 4, 2));
+    expect([start.getMonth(), start.getDate(), start.getHours()]).toEqual([3, 1, 4]);
+  });
+});
+
+describe('getDayKey', () => {
+  it.each<[string, number, string]>([
+    ['daytime', local(3, 10, 9), '2024-03-10'],
+    ['late night belongs to the previous day', local(3, 10, 3, 59), '2024-03-09'],
+    ['new year before the start hour', new Date(2025, 0, 1, 1).getTime(), '2024-12-31'],
+  ])('%s', (_, timestamp, expected) => {
+    expect(getDayKey(timestamp, 4)).toBe(expected);
+  });
+});
+
+describe('getDaysBetween', () => {
+  it.each<[string, string, number]>([
+    ['2024-03-10', '2024-03-10', 0],
+    ['2024-03-10', '2024-03-11', 1],
+    ['2024-03-11', '2024-03-10', -1],
+    ['2024-02-28', '2024-03-01', 2],
+    ['2024-12-31', '2025-01-01', 1],
+  ])('%s -> %s', (from, to, expected) => {
+    expect(getDaysBetween(from, to)).toBe(expected);
+  });
+});
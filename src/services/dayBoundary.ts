@@ -0,0 +1,67 @@
+/**
+ * 学习日边界工具 - 统一"今天"的定义
+ * 学习日按浏览器本地时区计算，并从用户设置的小时（如凌晨 4 点）开始，
+ * 深夜的复习会计入前一个学习日
+ */
+
+export const DEFAULT_DAY_START_HOUR = 4;
+
+// 一天的毫秒数，所有按天计算的间隔统一使用
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 获取时间戳所在学习日的开始时间
+ * @param timestamp 时间戳
+ * @param dayStartHour 每天开始的小时 (0-23)
+ */
+export function getDayStart(timestamp: number, dayStartHour: number = DEFAULT_DAY_START_HOUR): number {
+  const date = new Date(timestamp);
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), dayStartHour);
+
+  if (start.getTime() > timestamp) {
+    start.setDate(start.getDate() - 1);
+  }
+  return start.getTime();
+}
+
+/**
+ * 获取时间戳所在学习日之后第 days 个学习日的开始时间
+ * 使用日历日期计算，避免夏令时切换造成的偏差
+ * @param timestamp 时间戳
+ * @param dayStartHour 每天开始的小时 (0-23)
+ * @param days 向后的天数，默认为下一个学习日
+ */
+export function getNextDayStart(
+  timestamp: number,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR,
+  days: number = 1
+): number {
+  const start = new Date(getDayStart(timestamp, dayStartHour));
+  start.setDate(start.getDate() + days);
+  return start.getTime();
+}
+
+/**
+ * 获取时间戳所在学习日的标识，格式为 YYYY-MM-DD
+ * @param timestamp 时间戳
+ * @param dayStartHour 每天开始的小时 (0-23)
+ */
+export function getDayKey(timestamp: number, dayStartHour: number = DEFAULT_DAY_START_HOUR): string {
+  const start = new Date(getDayStart(timestamp, dayStartHour));
+  const month = String(start.getMonth() + 1).padStart(2, '0');
+  const day = String(start.getDate()).padStart(2, '0');
+  return `${start.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 计算两个学习日之间相差的天数 (to - from)
+ * @param fromKey 起始学习日标识
+ * @param toKey 结束学习日标识
+ */
+export function getDaysBetween(fromKey: string, toKey: string): number {
+  const toUtc = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(toKey) - toUtc(fromKey)) / DAY_MS);
+}
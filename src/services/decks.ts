@@ -0,0 +1,90 @@
+import { Deck, DeckSettings, LearningItem, UserSettings } from '../types';
+
+/**
+ * 牌组和标签 - 组织学习项目
+ * 每个项目最多属于一个牌组，可以有任意多个标签
+ */
+
+/**
+ * 创建新牌组，默认沿用全部全局设置
+ */
+export function createDeck(name: string, settings: DeckSettings = {}): Deck {
+  return {
+    id: 'deck-' + Date.now().toString(36) + Math.random().toString(36).substr(2, 5),
+    name: name.trim(),
+    createdAt: Date.now(),
+    settings
+  };
+}
+
+/**
+ * 查找牌组，未设置或牌组已删除时返回 undefined
+ */
+export function findDeck(settings: Pick<UserSettings, 'decks'>, deckId?: string): Deck | undefined {
+  return deckId ? settings.decks.find(deck => deck.id === deckId) : undefined;
+}
+
+/**
+ * 获取牌组生效的设置：牌组单独设置的调度参数和每日上限覆盖全局设置
+ * @param settings 全局用户设置
+ * @param deckId 牌组 ID，未设置时返回全局设置
+ */
+export function getDeckSettings(settings: UserSettings, deckId?: string): UserSettings {
+  const deck = findDeck(settings, deckId);
+  if (!deck) return settings;
+
+  const overrides = Object.fromEntries(
+    Object.entries(deck.settings).filter(([, value]) => value !== undefined)
+  );
+  return { ...settings, ...overrides };
+}
+
+/**
+ * 只保留属于牌组的项目，未指定牌组时返回全部
+ */
+export function filterItemsByDeck(items: LearningItem[], deckId?: string): LearningItem[] {
+  return deckId ? items.filter(item => item.deckId === deckId) : items;
+}
+
+/**
+ * 规范化标签：去掉首尾空白和开头的 #，空格换成 -，统一小写并去重
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map(tag => tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase())
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * 解析用逗号（中英文均可）分隔的标签输入
+ */
+export function parseTags(input: string): string[] {
+  return normalizeTags(input.split(/[,，]/));
+}
+
+/**
+ * 为项目添加标签，已有的标签不重复添加
+ */
+export function addItemTags(item: LearningItem, tags: string[]): LearningItem {
+  const added = normalizeTags(tags).filter(tag => !item.tags?.includes(tag));
+  return added.length > 0 ? { ...item, tags: [...(item.tags || []), ...added] } : item;
+}
+
+/**
+ * 移除项目的标签
+ */
+export function removeItemTag(item: LearningItem, tag: string): LearningItem {
+  if (!item.tags?.includes(tag)) return item;
+  const tags = item.tags.filter(existing => existing !== tag);
+  return { ...item, tags: tags.length > 0 ? tags : undefined };
+}
+
+/**
+ * 将项目移动到牌组，deckId 为空时移出牌组
+ */
+export function moveItemToDeck(item: LearningItem, deckId?: string): LearningItem {
+  if (item.deckId === deckId) return item;
+  const { deckId: _previous, ...rest } = item;
+  return deckId ? { ...rest, deckId } : rest;
+}
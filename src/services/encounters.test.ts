@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { LearningItem } from '../types';
+import { createEncounter, mergeIntoExistingItem } from './encounters';
+import { DAY_MS } from './dayBoundary';
+
+const NOW = new Date(2024, 2, 10, 12).getTime();
+
+const makeItem = (content: string, overrides: Partial<LearningItem> = {}): LearningItem => ({
+  id: content,
+  type: 'word',
+  content,
+  translation: '',
+  context: `The first ${content} sentence.`,
+  sourceUrl: 'https://example.com/first',
+  createdAt: NOW - 30 * DAY_MS,
+  lastReviewedAt: NOW - 10 * DAY_MS,
+  nextReviewAt: NOW + 10 * DAY_MS,
+  interval: 20,
+  easeFactor: 2.5,
+  schedulerState: { scheduler: 'sm2', state: 'review', step: 0, repetitions: 3, lapses: 0 },
+  userId: 'local',
+  ...overrides
+});
+
+describe('mergeIntoExistingItem', () => {
+  const items = [makeItem('run'), makeItem('hope')];
+  const encounter = createEncounter('They were running late.', 'https://example.com/second', 'Second', NOW);
+
+  it.each<[string, string, string | undefined, string | null]>([
+    // 名称, 保存的文本, 合并目标, 合并到的项目
+    ['merges an exact match', 'Run', undefined, 'run'],
+    ['merges another form of the word', 'running', undefined, 'run'],
+    ['merges into the chosen item', 'running', 'hope', 'hope'],
+    ['leaves new words to be created', 'walk', undefined, null],
+    ['does not fall back when the chosen item is gone', 'running', 'deleted', null],
+  ])('%s', (_, text, mergeIntoId, expected) => {
+    const merged = mergeIntoExistingItem(text, items, encounter, [], 4, mergeIntoId);
+    expect(merged?.id ?? null).toBe(expected);
+  });
+
+  it('records the encounter and an exposure without a new card', () => {
+    const merged = mergeIntoExistingItem('running', items, encounter, ['verbs'], 4);
+
+    expect(merged?.encounters?.map(e => e.sourceUrl)).toEqual(['https://example.com/first', 'https://example.com/second']);
+    expect(merged?.examples).toEqual(['They were running late.']);
+    expect(merged?.tags).toEqual(['verbs']);
+    expect(merged?.nextReviewAt).toBeGreaterThan(items[0].nextReviewAt);
+    expect(merged?.schedulerState).toEqual(items[0].schedulerState);
+  });
+});
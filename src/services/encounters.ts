@@ -0,0 +1,149 @@
+import { ItemEncounter, LearningItem } from '../types';
+import { addItemTags } from './decks';
+import { findDuplicateItem, normalizeText } from './lemma';
+import { DAY_MS, DEFAULT_DAY_START_HOUR, getDayKey } from './dayBoundary';
+
+/**
+ * 遇到记录 - 同一个单词在不同网页中的句子和来源
+ * 第一条记录与项目的 context / sourceUrl / sourceTitle 相同
+ */
+
+// 再次遇到时按距上次复习经过的天数推迟下次复习的比例
+const EXPOSURE_WEIGHT = 0.25;
+
+/**
+ * 创建一条遇到记录
+ */
+export function createEncounter(
+  context?: string,
+  sourceUrl?: string,
+  sourceTitle?: string,
+  encounteredAt: number = Date.now()
+): ItemEncounter {
+  return {
+    ...(context?.trim() ? { context: context.trim() } : {}),
+    ...(sourceUrl ? { sourceUrl } : {}),
+    ...(sourceTitle ? { sourceTitle } : {}),
+    encounteredAt
+  };
+}
+
+/**
+ * 由旧版本的单个上下文和来源生成遇到记录，没有时返回 undefined
+ */
+export function getLegacyEncounters(item: LearningItem): ItemEncounter[] | undefined {
+  if (!item.context && !item.sourceUrl) return undefined;
+  return [createEncounter(item.context, item.sourceUrl, item.sourceTitle, item.createdAt)];
+}
+
+/**
+ * 获取项目的所有遇到记录，最早的在前
+ */
+export function getItemEncounters(item: LearningItem): ItemEncounter[] {
+  return item.encounters ?? getLegacyEncounters(item) ?? [];
+}
+
+/**
+ * 选择复习卡片上显示的遇到记录，每复习一次轮换到下一条有句子的记录
+ * @param item 学习项目
+ * @param reviewCount 该项目已复习的次数
+ */
+export function getReviewEncounter(item: LearningItem, reviewCount: number): ItemEncounter | null {
+  const withContext = getItemEncounters(item).filter(encounter => encounter.context);
+  return withContext.length > 0 ? withContext[reviewCount % withContext.length] : null;
+}
+
+/**
+ * 再次遇到正在学习的单词时作为一次轻度曝光：
+ * 已进入复习阶段的项目按距上次复习经过的天数少量推迟下次复习，学习步骤中的项目不受影响
+ * @param item 学习项目
+ * @param now 遇到的时间
+ */
+function applyExposure(item: LearningItem, now: number): LearningItem {
+  if (item.isSuspended || item.schedulerState.state !== 'review') return item;
+
+  const elapsedDays = Math.max(0, (now - item.lastReviewedAt) / DAY_MS);
+  const bonusDays = Math.round(Math.min(elapsedDays, item.interval) * EXPOSURE_WEIGHT);
+  if (bonusDays < 1) return item;
+
+  return { ...item, nextReviewAt: Math.max(item.nextReviewAt, now) + bonusDays * DAY_MS };
+}
+
+/**
+ * 再次遇到已保存的单词时记录新的句子和来源，不改变调度算法的状态
+ * 新句子同时作为额外的例句；同一学习日内多次遇到只计一次曝光，相同页面的相同句子不重复记录
+ * @param item 已有的学习项目
+ * @param encounter 新的遇到记录
+ * @param tags 新保存时添加的标签
+ * @param dayStartHour 每天开始的小时
+ */
+export function recordEncounter(
+  item: LearningItem,
+  encounter: ItemEncounter,
+  tags: string[] = [],
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): LearningItem {
+  const tagged = addItemTags(item, tags);
+  const encounters = getItemEncounters(tagged);
+  const sentence = normalizeText(encounter.context || '');
+
+  const isRepeat = encounters.some(existing =>
+    existing.sourceUrl === encounter.sourceUrl && normalizeText(existing.context || '') === sentence
+  );
+  if (isRepeat) return tagged;
+
+  const seenToday = encounters.some(existing =>
+    getDayKey(existing.encounteredAt, dayStartHour) === getDayKey(encounter.encounteredAt, dayStartHour)
+  );
+  const exposed = seenToday ? tagged : applyExposure(tagged, encounter.encounteredAt);
+
+  // 句子也作为额外的例句，没有上下文的项目直接使用新句子
+  const known = [exposed.context, ...(exposed.examples || [])].map(text => normalizeText(text || ''));
+  const withSentence: LearningItem = !encounter.context || known.includes(sentence)
+    ? exposed
+    : exposed.context
+      ? { ...exposed, examples: [...(exposed.examples || []), encounter.context] }
+      : { ...exposed, context: encounter.context };
+
+  return { ...withSentence, encounters: [...encounters, encounter] };
+}
+
+/**
+ * 保存时合并到已有项目：指定了合并目标时使用该项目，否则查找相同的单词或同一单词的其他词形
+ * 找到时记录一次遇到并返回更新后的项目，找不到时返回 null，由调用方创建新项目
+ * @param text 要保存的单词或句子
+ * @param items 所有学习项目
+ * @param encounter 新的遇到记录
+ * @param tags 新保存时添加的标签
+ * @param dayStartHour 每天开始的小时
+ * @param mergeIntoId 用户选择的合并目标
+ */
+export function mergeIntoExistingItem(
+  text: string,
+  items: LearningItem[],
+  encounter: ItemEncounter,
+  tags: string[] = [],
+  dayStartHour: number = DEFAULT_DAY_START_HOUR,
+  mergeIntoId?: string
+): LearningItem | null {
+  const existing = mergeIntoId
+    ? items.find(item => item.id === mergeIntoId)
+    : findDuplicateItem(text, items)?.item;
+  return existing ? recordEncounter(existing, encounter, tags, dayStartHour) : null;
+}
+
+/**
+ * 修改项目的上下文，第一条遇到记录的句子随之更新
+ * @param item 学习项目
+ * @param context 新的上下文，留空表示删除
+ */
+export function setItemContext(item: LearningItem, context: string): LearningItem {
+  const [first, ...rest] = getItemEncounters(item);
+  const updated: LearningItem = { ...item, context: context.trim() || undefined };
+  if (!first) return updated;
+
+  return {
+    ...updated,
+    encounters: [createEncounter(context, first.sourceUrl, first.sourceTitle, first.encounteredAt), ...rest]
+  };
+}
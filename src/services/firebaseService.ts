@@ -18,6 +18,9 @@ import {
   User 
 } from 'firebase/auth';
 import { LearningItem, UserSettings } from '../types';
+import { DEFAULT_SETTINGS } from './storageService';
+import { getLastModifiedAt } from './reviewEngine';
+import { DEFAULT_REVIEW_SHORTCUTS } from './shortcuts';
 
 /**
  * Firebase 服务 - 处理云端数据同步
@@ -137,7 +140,7 @@ export async function syncLearningItemsToCloud(items: LearningItem[]): Promise<v
       createdAt: Timestamp.fromMillis(item.createdAt),
       lastReviewedAt: Timestamp.fromMillis(item.lastReviewedAt),
       nextReviewAt: Timestamp.fromMillis(item.nextReviewAt),
-      updatedAt: Timestamp.now()
+      updatedAt: item.updatedAt ? Timestamp.fromMillis(item.updatedAt) : Timestamp.now()
     }));
   }
 
@@ -170,7 +173,8 @@ export async function getLearningItemsFromCloud(): Promise<LearningItem[]> {
       id: doc.id,
       createdAt: data.createdAt.toMillis(),
       lastReviewedAt: data.lastReviewedAt.toMillis(),
-      nextReviewAt: data.nextReviewAt.toMillis()
+      nextReviewAt: data.nextReviewAt.toMillis(),
+      updatedAt: data.updatedAt?.toMillis()
     } as LearningItem);
   });
 
@@ -206,18 +210,13 @@ export async function getUserSettingsFromCloud(): Promise<UserSettings | null> {
   const docSnap = await getDoc(userSettingsRef);
 
   if (docSnap.exists()) {
-    const data = docSnap.data();
+    // 旧版本的单个 apiKey 字段迁移到 apiKeys，缺失的设置使用本地默认值
+    const { apiKey, ...data } = docSnap.data();
     return {
-      aiProvider: data.aiProvider,
-      apiKeys: data.apiKeys || {
-        openai: data.apiKey || '',
-        deepseek: '',
-        gemini: '',
-        qwen: ''
-      },
-      language: data.language,
-      dailyReviewLimit: data.dailyReviewLimit,
-      enableNotifications: data.enableNotifications
+      ...DEFAULT_SETTINGS,
+      ...data,
+      apiKeys: data.apiKeys || { ...DEFAULT_SETTINGS.apiKeys, openai: apiKey || '' },
+      reviewShortcuts: { ...DEFAULT_REVIEW_SHORTCUTS, ...data.reviewShortcuts }
     };
   }
 
@@ -312,7 +311,7 @@ export async function performFullSync(): Promise<{
     const cloudItems = await getLearningItemsFromCloud();
     const localItems = await getLearningItems();
 
-    // 简单的合并策略：以最新的 lastReviewedAt 为准
+    // 简单的合并策略：以最后修改或复习（包括反向和听写卡片）的一方为准
     const mergedItems = mergeItems(localItems, cloudItems);
     await saveLearningItems(mergedItems);
 
@@ -344,7 +343,7 @@ function mergeItems(localItems: LearningItem[], cloudItems: LearningItem[]): Lea
   // 合并云端项目，以最新的为准
   cloudItems.forEach(cloudItem => {
     const localItem = itemMap.get(cloudItem.id);
-    if (!localItem || cloudItem.lastReviewedAt > localItem.lastReviewedAt) {
+    if (!localItem || getLastModifiedAt(cloudItem) > getLastModifiedAt(localItem)) {
       itemMap.set(cloudItem.id, cloudItem);
     }
   });
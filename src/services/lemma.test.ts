@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { LearningItem } from '../types';
+import { findDuplicateItem, isSameLemma, normalizeText } from './lemma';
+
+const makeItem = (content: string): LearningItem => ({
+  id: content,
+  type: content.includes(' ') ? 'sentence' : 'word',
+  content,
+  translation: '',
+  createdAt: 0,
+  lastReviewedAt: 0,
+  nextReviewAt: 0,
+  interval: 0,
+  easeFactor: 2.5,
+  schedulerState: { scheduler: 'sm2', state: 'new', step: 0, repetitions: 0, lapses: 0 },
+  userId: 'local'
+});
+
+describe('normalizeText', () => {
+  it.each<[string, string]>([
+    ['Hello', 'hello'],
+    ['  "word!"  ', 'word'],
+    ['don’t', "don't"],
+    ['a  long\n sentence.', 'a long sentence'],
+  ])('%j -> %j', (text, expected) => {
+    expect(normalizeText(text)).toBe(expected);
+  });
+});
+
+describe('isSameLemma', () => {
+  it.each<[string, string]>([
+    // 规则变化
+    ['run', 'running'],
+    ['stop', 'stopped'],
+    ['hop', 'hopping'],
+    ['hope', 'hoped'],
+    ['hope', 'hoping'],
+    ['hate', 'hated'],
+    ['make', 'making'],
+    ['play', 'played'],
+    ['visit', 'visited'],
+    ['open', 'opening'],
+    ['fix', 'fixed'],
+    ['study', 'studies'],
+    ['study', 'studied'],
+    ['box', 'boxes'],
+    ['book', 'books'],
+    ['lie', 'lying'],
+    ['hopes', 'hoped'],
+    ['argue', 'argued'],
+    ['watch', 'watches'],
+    ['hero', 'heroes'],
+    ['see', 'sees'],
+    // 不规则变化
+    ['run', 'ran'],
+    ['go', 'went'],
+    ['do', 'does'],
+    ['child', 'children'],
+    ['good', 'better'],
+  ])('%s ~ %s', (a, b) => {
+    expect(isSameLemma(a, b)).toBe(true);
+    expect(isSameLemma(b, a)).toBe(true);
+  });
+
+  it.each<[string, string]>([
+    // 已知的误判
+    ['new', 'news'],
+    ['hop', 'hoped'],
+    ['hop', 'hoping'],
+    ['hat', 'hated'],
+    ['even', 'evening'],
+    ['see', 'seed'],
+    ['fee', 'feed'],
+    ['doe', 'does'],
+    ['hat', 'hates'],
+    ['car', 'cares'],
+    // 词干过短
+    ['s', 'sing'],
+    ['b', 'bed'],
+    ['class', 'clas'],
+    ['run', 'walk'],
+  ])('%s !~ %s', (a, b) => {
+    expect(isSameLemma(a, b)).toBe(false);
+    expect(isSameLemma(b, a)).toBe(false);
+  });
+});
+
+describe('findDuplicateItem', () => {
+  const items = ['Running', 'hope', 'new', 'look up to', 'The cat sat on the mat.'].map(makeItem);
+
+  it.each<[string, string | null, 'exact' | 'lemma' | null]>([
+    // 文本, 找到的项目, 匹配方式
+    ['running', 'Running', 'exact'],
+    ['ran', 'Running', 'lemma'],
+    ['hoped', 'hope', 'lemma'],
+    ['news', null, null],
+    ['Look up to', 'look up to', 'exact'],
+    ['looking up to', null, null],
+    ['the cat sat on the mat', 'The cat sat on the mat.', 'exact'],
+    ['', null, null],
+  ])('%j', (text, expectedContent, expectedMatch) => {
+    const duplicate = findDuplicateItem(text, items);
+
+    expect(duplicate?.item.content ?? null).toBe(expectedContent);
+    expect(duplicate?.match ?? null).toBe(expectedMatch);
+  });
+
+  it('prefers an exact match over another form', () => {
+    const duplicate = findDuplicateItem('runs', [makeItem('run'), makeItem('runs')]);
+    expect(duplicate).toEqual({ item: expect.objectContaining({ content: 'runs' }), match: 'exact' });
+  });
+});
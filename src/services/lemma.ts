@@ -0,0 +1,198 @@
+import { LearningItem } from '../types';
+
+/**
+ * 词形归一 - 保存前检测单词本中已有的相同单词或同一单词的其他词形
+ * 基于不规则词表和常见的英语屈折后缀规则，只生成候选原形，不做词典校验
+ */
+
+// 常见的不规则变化：原形 -> 变化形式
+const IRREGULAR_FORMS: Record<string, string[]> = {
+  be: ['am', 'is', 'are', 'was', 'were', 'been', 'being'],
+  have: ['has', 'had', 'having'],
+  do: ['does', 'did', 'done', 'doing'],
+  go: ['goes', 'went', 'gone', 'going'],
+  run: ['ran'],
+  come: ['came'],
+  see: ['saw', 'seen'],
+  take: ['took', 'taken'],
+  give: ['gave', 'given'],
+  make: ['made'],
+  know: ['knew', 'known'],
+  get: ['got', 'gotten'],
+  say: ['said'],
+  think: ['thought'],
+  find: ['found'],
+  tell: ['told'],
+  become: ['became'],
+  leave: ['left'],
+  feel: ['felt'],
+  bring: ['brought'],
+  begin: ['began', 'begun'],
+  keep: ['kept'],
+  hold: ['held'],
+  write: ['wrote', 'written'],
+  stand: ['stood'],
+  hear: ['heard'],
+  meet: ['met'],
+  sit: ['sat'],
+  speak: ['spoke', 'spoken'],
+  lead: ['led'],
+  grow: ['grew', 'grown'],
+  lose: ['lost'],
+  fall: ['fell', 'fallen'],
+  buy: ['bought'],
+  send: ['sent'],
+  build: ['built'],
+  understand: ['understood'],
+  break: ['broke', 'broken'],
+  spend: ['spent'],
+  rise: ['rose', 'risen'],
+  drive: ['drove', 'driven'],
+  eat: ['ate', 'eaten'],
+  teach: ['taught'],
+  catch: ['caught'],
+  choose: ['chose', 'chosen'],
+  wear: ['wore', 'worn'],
+  forget: ['forgot', 'forgotten'],
+  fly: ['flew', 'flown'],
+  swim: ['swam', 'swum'],
+  sing: ['sang', 'sung'],
+  drink: ['drank', 'drunk'],
+  throw: ['threw', 'thrown'],
+  sleep: ['slept'],
+  win: ['won'],
+  fight: ['fought'],
+  seek: ['sought'],
+  child: ['children'],
+  man: ['men'],
+  woman: ['women'],
+  person: ['people'],
+  mouse: ['mice'],
+  foot: ['feet'],
+  tooth: ['teeth'],
+  good: ['better', 'best'],
+  bad: ['worse', 'worst']
+};
+
+const IRREGULAR_LEMMAS = new Map(
+  Object.entries(IRREGULAR_FORMS).flatMap(([lemma, forms]) => forms.map(form => [form, lemma] as const))
+);
+
+// 以 s / ing 结尾但不是屈折变化的常见词，不去掉后缀，避免 "news" -> "new" 之类的误判
+const UNINFLECTED_WORDS = new Set([
+  'news', 'series', 'species', 'physics', 'mathematics', 'economics', 'politics',
+  'always', 'perhaps', 'sometimes', 'evening', 'morning'
+]);
+
+// 去掉后缀后的词干至少保留的字母数，避免 "sing" -> "s" 之类的误判
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * 判断词干是否为辅音-元音-辅音结尾的单音节词，如 hop、hat
+ * 这类原形加 ed / ing 时会双写末尾辅音（hopped），所以 hoped 的原形只能是 hope
+ */
+function isShortSyllable(stem: string): boolean {
+  return /[^aeiou][aeiou][^aeiouwxy]$/.test(stem) && (stem.match(/[aeiou]+/g) || []).length === 1;
+}
+
+/**
+ * 规范化文本：统一小写和撇号，去掉首尾的标点，合并空白
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * 生成单词可能的原形，包含单词本身
+ * 例如 running -> running, runn, runne, run；hoping -> hoping, hope
+ * @param word 规范化后的单词
+ */
+export function getLemmaCandidates(word: string): Set<string> {
+  const candidates = new Set([word]);
+  const add = (stem: string, suffix: string = '') => {
+    if (stem.length >= MIN_STEM_LENGTH) candidates.add(stem + suffix);
+  };
+  // 去掉重复的末尾辅音：stopped -> stop, running -> run
+  const addUndoubled = (stem: string) => {
+    if (/([b-df-hj-np-tv-z])\1$/.test(stem)) add(stem.slice(0, -1));
+  };
+
+  const irregular = IRREGULAR_LEMMAS.get(word);
+  if (irregular) candidates.add(irregular);
+  if (UNINFLECTED_WORDS.has(word)) return candidates;
+
+  if (word.endsWith('ies')) {
+    add(word.slice(0, -3), 'y');
+  } else if (word.endsWith('es')) {
+    const stem = word.slice(0, -2);
+    // 只有 s/x/z/ch/sh/o 结尾的原形加 -es：boxes -> box，但 hates 不是 hat
+    if (/(s|x|z|ch|sh|o)$/.test(stem)) add(stem);
+    // 以 e 结尾的原形只加 -s：hopes -> hope，但 does 不是 doe
+    if (!stem.endsWith('o')) add(word.slice(0, -1));
+  } else if (word.endsWith('s') && !word.endsWith('ss')) {
+    add(word.slice(0, -1));
+  }
+
+  if (word.endsWith('ied')) {
+    add(word.slice(0, -3), 'y');
+  } else if (word.endsWith('ed')) {
+    const stem = word.slice(0, -2);
+    if (!isShortSyllable(stem)) add(stem);
+    // 以 e 结尾的原形只加 -d，e 前面是辅音或 u：hoped -> hope, argued -> argue，但 seed 不是 see
+    if (/[^aeio]$/.test(stem)) add(word.slice(0, -1));
+    addUndoubled(stem);
+  }
+
+  // lying -> lie, dying -> die，词干很短，不受最小长度限制
+  if (word.endsWith('ying') && word.length > 4) {
+    candidates.add(word.slice(0, -4) + 'ie');
+  }
+  if (word.endsWith('ing')) {
+    const stem = word.slice(0, -3);
+    if (!isShortSyllable(stem)) add(stem);
+    add(stem, 'e');
+    addUndoubled(stem);
+  }
+
+  return candidates;
+}
+
+/**
+ * 判断两个单词是否可能是同一个词的不同词形
+ */
+export function isSameLemma(a: string, b: string): boolean {
+  const candidates = getLemmaCandidates(normalizeText(a));
+  return Array.from(getLemmaCandidates(normalizeText(b))).some(candidate => candidates.has(candidate));
+}
+
+// 保存前找到的已有项目
+export interface DuplicateMatch {
+  item: LearningItem;
+  match: 'exact' | 'lemma'; // 完全相同 / 同一单词的其他词形
+}
+
+/**
+ * 在已有项目中查找与要保存的文本重复的项目
+ * 优先返回完全相同的项目；单词再按词形查找，句子只比较规范化后的文本
+ * @param text 要保存的单词或句子
+ * @param items 所有学习项目
+ */
+export function findDuplicateItem(text: string, items: LearningItem[]): DuplicateMatch | null {
+  const normalized = normalizeText(text);
+  if (!normalized) return null;
+
+  const exact = items.find(item => normalizeText(item.content) === normalized);
+  if (exact) return { item: exact, match: 'exact' };
+
+  if (normalized.includes(' ')) return null;
+  const related = items.find(item => {
+    const content = normalizeText(item.content);
+    return !content.includes(' ') && isSameLemma(content, normalized);
+  });
+  return related ? { item: related, match: 'lemma' } : null;
+}
@@ -0,0 +1,85 @@
+import { LearningItem } from '../types';
+import { DAY_MS, getDayKey } from './dayBoundary';
+
+/**
+ * 间隔随机化与负载均衡
+ * 避免同一天保存的卡片永远在同一天到期，并尽量把到期日安排到卡片较少的日子
+ */
+
+// 间隔越长，允许的随机浮动比例越小
+const FUZZ_RANGES = [
+  { start: 2.5, end: 7, factor: 0.15 },
+  { start: 7, end: 20, factor: 0.1 },
+  { start: 20, end: Infinity, factor: 0.05 }
+];
+
+/**
+ * 计算间隔（天）允许的浮动范围
+ * @param interval 调度器给出的间隔
+ * @returns 最小和最大间隔
+ */
+export function getFuzzRange(interval: number): { min: number; max: number } {
+  if (interval < 2.5) {
+    return { min: interval, max: interval };
+  }
+
+  const delta = FUZZ_RANGES.reduce(
+    (sum, range) => sum + range.factor * Math.max(Math.min(interval, range.end) - range.start, 0),
+    1
+  );
+  const min = Math.max(2, Math.round(interval - delta));
+  const max = Math.max(min, Math.round(interval + delta));
+  return { min, max };
+}
+
+/**
+ * 在浮动范围内选出最终间隔
+ * 提供每日到期数量时，选择到期卡片最少的一天；否则随机选择
+ * @param interval 调度器给出的间隔
+ * @param now 当前时间
+ * @param dayStartHour 每天开始的小时
+ * @param dueCounts 每个学习日已到期的卡片数量，为空时不做负载均衡
+ * @returns 最终间隔（天）
+ */
+export function fuzzInterval(
+  interval: number,
+  now: number,
+  dayStartHour: number,
+  dueCounts?: Map<string, number>
+): number {
+  const { min, max } = getFuzzRange(interval);
+  if (min === max) {
+    return interval;
+  }
+
+  const candidates = Array.from({ length: max - min + 1 }, (_, index) => min + index);
+
+  if (!dueCounts) {
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+
+  const countOf = (days: number) => dueCounts.get(getDayKey(now + days * DAY_MS, dayStartHour)) || 0;
+  const fewest = Math.min(...candidates.map(countOf));
+  const quietestDays = candidates.filter(days => countOf(days) === fewest);
+  return quietestDays[Math.floor(Math.random() * quietestDays.length)];
+}
+
+/**
+ * 统计每个学习日到期的卡片数量，包含已创建的反向卡片
+ * @param items 学习项目列表
+ * @param dayStartHour 每天开始的小时
+ * @returns 学习日标识到卡片数量的映射
+ */
+export function getDueCountsByDay(items: LearningItem[], dayStartHour: number): Map<string, number> {
+  const dueCounts = new Map<string, number>();
+
+  items
+    .filter(item => !item.isSuspended)
+    .flatMap(item => [item.nextReviewAt, ...Object.values(item.variants ?? {}).map(v => v.nextReviewAt)])
+    .forEach(nextReviewAt => {
+      const dayKey = getDayKey(nextReviewAt, dayStartHour);
+      dueCounts.set(dayKey, (dueCounts.get(dayKey) || 0) + 1);
+    });
+
+  return dueCounts;
+}
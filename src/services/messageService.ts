@@ -1,3 +1,5 @@
+import type { AITranslationResponse, CardVariant, ItemStatusAction, LearningItem, ReviewLogEntry, ReviewResult } from '../types';
+
 /**
  * 消息服务 - 统一处理 Chrome 扩展内部通信
  * 提供类型安全的消息传递接口
@@ -25,6 +27,21 @@ export interface SaveWordMessage extends ChromeMessage {
     translation: string;
     type: 'word' | 'sentence';
     context?: string;
+    sourceUrl?: string;
+    sourceTitle?: string;
+    tags?: string[];
+    deckId?: string;
+    mergeIntoId?: string; // 合并到指定的已有项目，未指定时合并到相同单词或其他词形的项目
+  } & Omit<AITranslationResponse, 'translation'>; // AI 返回的词性、音标、说明和例句
+}
+
+export interface CheckDuplicateMessage extends ChromeMessage {
+  action: 'checkDuplicate';
+  data: {
+    text: string;
+    context?: string; // 查到已有项目时记录为一次遇到
+    sourceUrl?: string;
+    sourceTitle?: string;
   };
 }
 
@@ -44,6 +61,47 @@ export interface GetReviewItemsMessage extends ChromeMessage {
   action: 'getReviewItems';
 }
 
+export interface SubmitReviewMessage extends ChromeMessage {
+  action: 'submitReview';
+  data: {
+    itemId: string;
+    result: ReviewResult;
+    timeTaken?: number; // 卡片停留时间（毫秒）
+    variant?: CardVariant; // 复习的卡片类型，默认为正向
+    reschedule?: boolean; // 为 false 时只记录评分，不改变调度状态（突击复习）
+  };
+}
+
+export interface GenerateExamplesMessage extends ChromeMessage {
+  action: 'generateExamples';
+  data: {
+    itemId: string;
+  };
+}
+
+export interface RegenerateDetailsMessage extends ChromeMessage {
+  action: 'regenerateDetails';
+  data: {
+    itemId: string;
+  };
+}
+
+export interface UndoReviewMessage extends ChromeMessage {
+  action: 'undoReview';
+  data: {
+    logEntryId: string;
+    previousItem: LearningItem; // 复习前的学习项目
+  };
+}
+
+export interface UpdateItemStatusMessage extends ChromeMessage {
+  action: 'updateItemStatus';
+  data: {
+    itemId: string;
+    status: ItemStatusAction;
+  };
+}
+
 export interface SyncDataMessage extends ChromeMessage {
   action: 'syncData';
 }
@@ -55,6 +113,28 @@ export interface MessageResponse<T = any> {
   error?: string;
 }
 
+// 重复检测的响应，没有重复时为 null
+export interface DuplicateCheckResult {
+  itemId: string;
+  content: string;
+  translation: string;
+  match: 'exact' | 'lemma'; // 完全相同 / 同一单词的其他词形
+  nextReviewAt: number;
+  isSuspended: boolean;
+}
+
+// 保存单词的响应，已有相同单词或其他词形时合并到该项目
+export interface SaveWordResult {
+  item: LearningItem;
+  merged: boolean;
+}
+
+// 提交复习的响应，记录 ID 用于撤销
+export interface ReviewSubmission {
+  item: LearningItem;
+  logEntry: ReviewLogEntry;
+}
+
 /**
  * 发送消息到 background script
  */
@@ -162,14 +242,30 @@ export async function saveWord(
   text: string,
   translation: string,
   type: 'word' | 'sentence',
-  context?: string
+  context?: string,
+  details: Omit<SaveWordMessage['data'], 'text' | 'translation' | 'type' | 'context'> = {}
 ) {
   const message: SaveWordMessage = {
     action: 'saveWord',
-    data: { text, translation, type, context }
+    data: { text, translation, type, context, ...details }
   };
   
-  return sendMessageToBackground(message);
+  return sendMessageToBackground<SaveWordResult>(message);
+}
+
+/**
+ * 检查单词本中是否已有相同单词或其他词形的便捷方法
+ */
+export async function checkDuplicate(
+  text: string,
+  details: Omit<CheckDuplicateMessage['data'], 'text'> = {}
+) {
+  const message: CheckDuplicateMessage = {
+    action: 'checkDuplicate',
+    data: { text, ...details }
+  };
+  
+  return sendMessageToBackground<DuplicateCheckResult | null>(message);
 }
 
 /**
@@ -206,6 +302,72 @@ export async function getReviewItems() {
   return sendMessageToBackground(message);
 }
 
+/**
+ * 提交复习结果的便捷方法
+ */
+export async function submitReview(
+  itemId: string,
+  result: ReviewResult,
+  timeTaken?: number,
+  variant?: CardVariant,
+  reschedule?: boolean
+) {
+  const message: SubmitReviewMessage = {
+    action: 'submitReview',
+    data: { itemId, result, timeTaken, variant, reschedule }
+  };
+  
+  return sendMessageToBackground<ReviewSubmission>(message);
+}
+
+/**
+ * 为学习项目生成 AI 例句的便捷方法
+ */
+export async function generateExamples(itemId: string) {
+  const message: GenerateExamplesMessage = {
+    action: 'generateExamples',
+    data: { itemId }
+  };
+  
+  return sendMessageToBackground<LearningItem>(message);
+}
+
+/**
+ * 重新生成学习项目 AI 说明的便捷方法
+ */
+export async function regenerateDetails(itemId: string) {
+  const message: RegenerateDetailsMessage = {
+    action: 'regenerateDetails',
+    data: { itemId }
+  };
+  
+  return sendMessageToBackground<LearningItem>(message);
+}
+
+/**
+ * 撤销复习的便捷方法
+ */
+export async function undoReview(logEntryId: string, previousItem: LearningItem) {
+  const message: UndoReviewMessage = {
+    action: 'undoReview',
+    data: { logEntryId, previousItem }
+  };
+  
+  return sendMessageToBackground<LearningItem>(message);
+}
+
+/**
+ * 暂停、搁置或恢复学习项目的便捷方法
+ */
+export async function updateItemStatus(itemId: string, status: ItemStatusAction) {
+  const message: UpdateItemStatusMessage = {
+    action: 'updateItemStatus',
+    data: { itemId, status }
+  };
+  
+  return sendMessageToBackground<LearningItem>(message);
+}
+
 /**
  * 同步数据的便捷方法
  */
@@ -0,0 +1,89 @@
+import { LearningItem, ReviewResult } from '../types';
+
+/**
+ * 选择题复习 - 从自己的词库中挑选干扰项
+ * 干扰项优先选择词性相同、长度相近的其他项目
+ */
+
+export type ChoiceField = 'translation' | 'content';
+
+// 答题用时阈值（毫秒）
+const FAST_ANSWER_MS = 3000;
+const SLOW_ANSWER_MS = 10000;
+// 从长度最接近的若干候选中随机抽取，避免每次出现同样的干扰项
+const CANDIDATE_POOL_SIZE = 8;
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * 生成选择题选项
+ * @param item 当前复习的学习项目
+ * @param allItems 所有学习项目
+ * @param field 作为选项的字段：正向卡片选翻译，反向卡片选原文
+ * @param count 选项数量（包含正确答案）
+ * @returns 打乱顺序后的选项；词库太小时选项会少于 count
+ */
+export function buildChoices(
+  item: LearningItem,
+  allItems: LearningItem[],
+  field: ChoiceField = 'translation',
+  count: number = 4
+): string[] {
+  const answer = item[field];
+  const seen = new Set([normalize(answer)]);
+  const candidates = allItems.filter(other => {
+    const value = other[field];
+    if (other.id === item.id || !value.trim() || seen.has(normalize(value))) return false;
+    seen.add(normalize(value));
+    return true;
+  });
+
+  const byLength = (pool: LearningItem[]) =>
+    [...pool].sort(
+      (a, b) => Math.abs(a[field].length - answer.length) - Math.abs(b[field].length - answer.length)
+    );
+
+  // 依次放宽条件：相同词性 > 相同类型 > 任意项目
+  const tiers = [
+    candidates.filter(other => !!item.wordType && other.wordType === item.wordType),
+    candidates.filter(other => other.type === item.type),
+    candidates
+  ];
+
+  const distractors: string[] = [];
+  for (const tier of tiers) {
+    const pool = byLength(tier.filter(other => !distractors.includes(other[field])))
+      .slice(0, CANDIDATE_POOL_SIZE);
+    shuffle(pool)
+      .slice(0, count - 1 - distractors.length)
+      .forEach(other => distractors.push(other[field]));
+
+    if (distractors.length >= count - 1) break;
+  }
+
+  return shuffle([answer, ...distractors]);
+}
+
+/**
+ * 根据选择结果和用时给出复习评分
+ * 答对且很快为 Easy，正常为 Good，很慢为 Hard；答错为 Forgot
+ * @param isCorrect 是否选对
+ * @param responseTime 答题用时（毫秒）
+ */
+export function getChoiceQuality(isCorrect: boolean, responseTime: number): ReviewResult['quality'] {
+  if (!isCorrect) return 1;
+  if (responseTime < FAST_ANSWER_MS) return 5;
+  if (responseTime > SLOW_ANSWER_MS) return 3;
+  return 4;
+}
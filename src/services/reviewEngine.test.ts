@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CardSchedule, CardState, LearningItem, ReviewLogEntry, ReviewResult, UserSettings } from '../types';
+import { DEFAULT_SETTINGS } from './storageService';
+import { areSiblings, buildReviewQueue, getLastModifiedAt, getReviewStats, scheduleCard, updateItemAfterReview } from './reviewEngine';
+import { getFuzzRange } from './loadBalancer';
+import { DAY_MS } from './dayBoundary';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+// 本地时间中午，学习日从 4 点开始
+const NOW = new Date(2024, 2, 10, 12).getTime();
+
+const settingsWith = (overrides: Partial<UserSettings> = {}): UserSettings => ({
+  ...DEFAULT_SETTINGS,
+  enableFuzz: false,
+  ...overrides
+});
+
+const makeItem = (
+  id: string,
+  state: CardState,
+  nextReviewAt: number,
+  overrides: Partial<LearningItem> = {}
+): LearningItem => ({
+  id,
+  type: 'word',
+  content: id,
+  translation: id,
+  createdAt: NOW - 30 * DAY_MS,
+  lastReviewedAt: state === 'new' ? 0 : NOW - 5 * DAY_MS,
+  nextReviewAt,
+  interval: state === 'review' ? 5 : 0,
+  easeFactor: 2.5,
+  schedulerState: { scheduler: 'sm2', state, step: 0, repetitions: state === 'review' ? 2 : 0, lapses: 0 },
+  userId: 'local',
+  ...overrides
+});
+
+const makeLog = (itemId: string, cardState: CardState, overrides: Partial<ReviewLogEntry> = {}): ReviewLogEntry => ({
+  id: `log-${itemId}`,
+  itemId,
+  reviewedAt: NOW - HOUR_MS,
+  quality: 4,
+  cardState,
+  timeTaken: 1000,
+  previousInterval: 0,
+  newInterval: 1,
+  previousEaseFactor: 2.5,
+  newEaseFactor: 2.5,
+  scheduler: 'sm2',
+  ...overrides
+});
+
+const toCard = (item: LearningItem): CardSchedule => item;
+
+describe('scheduleCard', () => {
+  const settings = settingsWith({ learningSteps: [1, 10], relearningSteps: [10] });
+
+  it.each<[string, CardState, number, ReviewResult['quality'], CardState, number, number]>([
+    // 名称, 状态, 步骤, 评分, 新状态, 新步骤, 距下次复习的分钟数
+    ['new card enters the first step', 'new', 0, 4, 'learning', 1, 10],
+    ['failing a step restarts learning', 'learning', 1, 2, 'learning', 0, 1],
+    ['passing the last step graduates', 'learning', 1, 4, 'review', 0, 24 * 60],
+    ['easy skips the remaining steps', 'new', 0, 5, 'review', 0, 24 * 60],
+    ['lapse enters relearning', 'review', 0, 1, 'relearning', 0, 10],
+    ['passing relearning returns to review', 'relearning', 0, 4, 'review', 0, 24 * 60],
+  ])('%s', (_, state, step, quality, expectedState, expectedStep, minutes) => {
+    const card = toCard(makeItem('a', state, NOW, {
+      interval: state === 'relearning' ? 1 : state === 'review' ? 5 : 0,
+      schedulerState: { scheduler: 'sm2', state, step, repetitions: 0, lapses: 0 }
+    }));
+    const scheduled = scheduleCard(card, { quality }, settings, NOW);
+
+    expect(scheduled.schedulerState.state).toBe(expectedState);
+    expect(scheduled.schedulerState.step).toBe(expectedStep);
+    expect(scheduled.nextReviewAt - NOW).toBe(minutes * MINUTE_MS);
+  });
+
+  it('counts a lapse only for review cards', () => {
+    const review = scheduleCard(toCard(makeItem('a', 'review', NOW)), { quality: 0 }, settings, NOW);
+    const learning = scheduleCard(toCard(makeItem('b', 'learning', NOW)), { quality: 0 }, settings, NOW);
+
+    expect(review.schedulerState.lapses).toBe(1);
+    expect(learning.schedulerState.lapses).toBe(0);
+  });
+
+  it('keeps fuzzed intervals within the fuzz range', () => {
+    const card = toCard(makeItem('a', 'review', NOW, { interval: 10 }));
+    const { min, max } = getFuzzRange(25);
+
+    for (let i = 0; i < 20; i++) {
+      const scheduled = scheduleCard(card, { quality: 4 }, settingsWith({ enableFuzz: true }), NOW);
+      expect(scheduled.interval).toBeGreaterThanOrEqual(min);
+      expect(scheduled.interval).toBeLessThanOrEqual(max);
+    }
+  });
+});
+
+describe('updateItemAfterReview leech detection', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each<[number, number, boolean]>([
+    // 复习前的遗忘次数, 阈值, 是否标记为 leech
+    [6, 8, false],
+    [7, 8, true],
+    [8, 8, false],
+    [11, 8, true],
+    [7, 0, false],
+  ])('%i previous lapses with threshold %i', (lapses, leechThreshold, expected) => {
+    const item = makeItem('a', 'review', NOW, {
+      schedulerState: { scheduler: 'sm2', state: 'review', step: 0, repetitions: 2, lapses }
+    });
+    const updated = updateItemAfterReview(item, { quality: 0 }, settingsWith({ leechThreshold }));
+
+    expect(!!updated.tags?.includes('leech')).toBe(expected);
+  });
+
+  it('suspends leeches when enabled', () => {
+    const item = makeItem('a', 'review', NOW, {
+      schedulerState: { scheduler: 'sm2', state: 'review', step: 0, repetitions: 2, lapses: 7 }
+    });
+    const updated = updateItemAfterReview(item, { quality: 0 }, settingsWith({ autoSuspendLeeches: true }));
+
+    expect(updated.isSuspended).toBe(true);
+  });
+});
+
+describe('buildReviewQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const ids = (queue: ReturnType<typeof buildReviewQueue>) =>
+    queue.map(({ item, variant }) => (variant === 'forward' ? item.id : `${item.id}:${variant}`));
+
+  it.each<[string, LearningItem[], string[]]>([
+    ['orders learning cards first, then the most overdue reviews', [
+      makeItem('review-recent', 'review', NOW - DAY_MS),
+      makeItem('learning', 'learning', NOW - MINUTE_MS),
+      makeItem('review-old', 'review', NOW - 3 * DAY_MS),
+    ], ['learning', 'review-old', 'review-recent']],
+    ['includes reviews due later today but not learning steps', [
+      makeItem('review-tonight', 'review', NOW + 8 * HOUR_MS),
+      makeItem('learning-soon', 'learning', NOW + 10 * MINUTE_MS),
+      makeItem('review-tomorrow', 'review', NOW + DAY_MS),
+    ], ['review-tonight']],
+    ['skips suspended and buried items', [
+      makeItem('suspended', 'review', NOW - DAY_MS, { isSuspended: true }),
+      makeItem('buried', 'review', NOW - DAY_MS, { buriedUntil: NOW + HOUR_MS }),
+      makeItem('unburied', 'review', NOW - DAY_MS, { buriedUntil: NOW - HOUR_MS }),
+    ], ['unburied']],
+    ['interleaves new cards among reviews', [
+      makeItem('r1', 'review', NOW - 4 * DAY_MS),
+      makeItem('r2', 'review', NOW - 3 * DAY_MS),
+      makeItem('r3', 'review', NOW - 2 * DAY_MS),
+      makeItem('r4', 'review', NOW - DAY_MS),
+      makeItem('n1', 'new', NOW, { createdAt: NOW - 2 * DAY_MS }),
+      makeItem('n2', 'new', NOW, { createdAt: NOW - DAY_MS }),
+    ], ['r1', 'r2', 'n1', 'r3', 'r4', 'n2']],
+  ])('%s', (_, items, expected) => {
+    expect(ids(buildReviewQueue(items, [], settingsWith()))).toEqual(expected);
+  });
+
+  it('includes enabled reverse cards as separate new cards', () => {
+    const items = [makeItem('a', 'review', NOW - DAY_MS)];
+    expect(ids(buildReviewQueue(items, [], settingsWith({ enableReverseCards: true })))).toEqual(['a', 'a:reverse']);
+  });
+
+  it.each<[string, Partial<UserSettings>, ReviewLogEntry[], string[]]>([
+    ['caps reviews at the daily limit', { dailyReviewLimit: 2 }, [], ['r1', 'r2']],
+    ['subtracts reviews already done today', { dailyReviewLimit: 2 }, [makeLog('done', 'review')], ['r1']],
+    ['ignores cram reviews', { dailyReviewLimit: 2 }, [makeLog('done', 'review', { isCram: true })], ['r1', 'r2']],
+    ['ignores reviews from yesterday', { dailyReviewLimit: 2 }, [makeLog('done', 'review', { reviewedAt: NOW - DAY_MS })], ['r1', 'r2']],
+    ['caps new cards at the daily new limit', { dailyNewLimit: 1 }, [], ['r1', 'r2', 'r3', 'n1']],
+    ['subtracts new cards learned today', { dailyNewLimit: 1 }, [makeLog('learned', 'new')], ['r1', 'r2', 'r3']],
+  ])('%s', (_, overrides, reviewLog, expected) => {
+    const items = [
+      makeItem('r1', 'review', NOW - 3 * DAY_MS),
+      makeItem('r2', 'review', NOW - 2 * DAY_MS),
+      makeItem('r3', 'review', NOW - DAY_MS),
+      makeItem('n1', 'new', NOW, { createdAt: NOW - 2 * DAY_MS }),
+      makeItem('n2', 'new', NOW, { createdAt: NOW - DAY_MS }),
+    ];
+    const settings = settingsWith({ dailyNewLimit: 0, ...overrides });
+
+    expect(ids(buildReviewQueue(items, reviewLog, settings))).toEqual(expected);
+  });
+
+  describe('with decks', () => {
+    const settings = settingsWith({
+      dailyReviewLimit: 3,
+      decks: [{ id: 'deck-a', name: 'A', createdAt: 0, settings: { dailyReviewLimit: 1 } }]
+    });
+    const items = [
+      makeItem('a1', 'review', NOW - 4 * DAY_MS, { deckId: 'deck-a' }),
+      makeItem('a2', 'review', NOW - 3 * DAY_MS, { deckId: 'deck-a' }),
+      makeItem('x1', 'review', NOW - 2 * DAY_MS),
+      makeItem('x2', 'review', NOW - DAY_MS),
+      makeItem('x3', 'review', NOW - DAY_MS / 2),
+    ];
+
+    it.each<[string, string | undefined, ReviewLogEntry[], string[]]>([
+      ['applies deck limits and the global limit across all decks', undefined, [], ['a1', 'x1', 'x2']],
+      ['shows only the selected deck', 'deck-a', [], ['a1']],
+      ['counts reviews done today per deck', 'deck-a', [makeLog('a2', 'review')], []],
+      ['other decks still have their own limit', undefined, [makeLog('a2', 'review')], ['x1', 'x2']],
+    ])('%s', (_, deckId, reviewLog, expected) => {
+      expect(ids(buildReviewQueue(items, reviewLog, settings, deckId))).toEqual(expected);
+    });
+  });
+});
+
+describe('getReviewStats', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each<[string, ReviewLogEntry[], number]>([
+    ['counts reviews done today', [makeLog('a', 'review'), makeLog('b', 'new')], 2],
+    ['ignores cram reviews', [makeLog('a', 'review'), makeLog('b', 'review', { isCram: true })], 1],
+    ['ignores reviews from yesterday', [makeLog('a', 'review', { reviewedAt: NOW - DAY_MS })], 0],
+  ])('%s', (_, reviewLog, expected) => {
+    expect(getReviewStats([], reviewLog, 4).todayReviews).toBe(expected);
+  });
+});
+
+describe('getLastModifiedAt', () => {
+  const reviewed = NOW - 5 * DAY_MS;
+  const reverse = { ...makeItem('a', 'review', NOW), lastReviewedAt: NOW - DAY_MS };
+
+  it.each<[string, Partial<LearningItem>, number]>([
+    ['uses the forward review time', {}, reviewed],
+    ['uses a later reverse review', { variants: { reverse } }, NOW - DAY_MS],
+    ['uses a later edit', { updatedAt: NOW - 2 * DAY_MS }, NOW - 2 * DAY_MS],
+    ['ignores older edits', { updatedAt: NOW - 10 * DAY_MS }, reviewed],
+  ])('%s', (_, overrides, expected) => {
+    expect(getLastModifiedAt(makeItem('a', 'review', NOW, overrides))).toBe(expected);
+  });
+});
+
+describe('areSiblings', () => {
+  const PAGE = 'https://example.com/a';
+  const SENTENCE = 'The quick fox jumps.';
+  const encounter = (context: string, sourceUrl: string = PAGE) => ({ context, sourceUrl, encounteredAt: NOW });
+  const word = (id: string, overrides: Partial<LearningItem>) => makeItem(id, 'review', NOW, overrides);
+
+  it.each<[string, Partial<LearningItem>, Partial<LearningItem>, boolean]>([
+    ['same saved context', { context: SENTENCE }, { context: SENTENCE }, true],
+    ['same sentence in a later encounter', { context: 'Another one.', encounters: [encounter('Another one.'), encounter(SENTENCE)] }, { context: SENTENCE }, true],
+    ['sentence saved from a later encounter', { encounters: [encounter('Another one.'), encounter(SENTENCE, 'https://example.com/b')] },
+      { type: 'sentence', content: SENTENCE, sourceUrl: 'https://example.com/b' }, true],
+    ['sentence from another page', { context: SENTENCE, sourceUrl: PAGE }, { type: 'sentence', content: SENTENCE, sourceUrl: 'https://example.com/b' }, false],
+    ['different contexts', { context: SENTENCE }, { context: 'Another one.' }, false],
+    ['no contexts', {}, {}, false],
+  ])('%s', (_, a, b, expected) => {
+    expect(areSiblings(word('a', a), word('b', b))).toBe(expected);
+    expect(areSiblings(word('b', b), word('a', a))).toBe(expected);
+  });
+});
@@ -1,58 +1,383 @@
-import { LearningItem, ReviewResult } from '../types';
+import {
+  CardSchedule,
+  CardState,
+  CardVariant,
+  CardVariantSettings,
+  ItemStatusAction,
+  LearningItem,
+  LearningItemDetails,
+  ReviewForecastDay,
+  ReviewCard,
+  ReviewLogEntry,
+  ReviewMode,
+  ReviewResult,
+  ReviewSession,
+  ReviewSessionDay,
+  SchedulerState,
+  SchedulerType,
+  UserSettings
+} from '../types';
+import { DEFAULT_EASE_FACTOR, getScheduler } from './schedulers';
+import {
+  DAY_MS,
+  DEFAULT_DAY_START_HOUR,
+  getDayKey,
+  getDaysBetween,
+  getNextDayStart
+} from './dayBoundary';
+import { fuzzInterval, getDueCountsByDay } from './loadBalancer';
+import { filterItemsByDeck, getDeckSettings } from './decks';
+import { getItemEncounters, getLegacyEncounters } from './encounters';
 
 /**
  * 艾宾浩斯记忆曲线复习引擎
- * 基于 SM-2 (SuperMemo 2) 算法实现
+ * 具体的间隔计算由可插拔的调度器 (SM-2 / FSRS) 完成
  */
 
-// SM-2 算法的默认参数
-const DEFAULT_EASE_FACTOR = 2.5;
-const MIN_EASE_FACTOR = 1.3;
-const INITIAL_INTERVAL = 1; // 首次复习间隔（天）
+export const LEECH_TAG = 'leech';
+// 会话总结中列出的最困难项目数量
+const HARDEST_ITEM_COUNT = 5;
+
+const MINUTE_MS = 60 * 1000;
+const MAX_SIMULATED_REVIEWS_PER_DAY = 20; // 防止学习步骤配置异常时死循环
 
 /**
  * 根据复习结果更新学习项目的复习参数
  * @param item 学习项目
  * @param result 复习结果
+ * @param globalSettings 用户设置（调度算法、学习步骤），项目所属牌组的设置优先
+ * @param allItems 所有学习项目，开启负载均衡时用于统计每日到期数量
+ * @param variant 复习的卡片类型
  * @returns 更新后的学习项目
  */
-export function updateItemAfterReview(item: LearningItem, result: ReviewResult): LearningItem {
-  const now = Date.now();
-  let newInterval = item.interval;
-  let newEaseFactor = item.easeFactor;
-
-  // SM-2 算法核心逻辑
-  if (result.quality >= 3) {
-    // 回答正确
-    if (item.interval === 0) {
-      newInterval = 1;
-    } else if (item.interval === 1) {
-      newInterval = 6;
-    } else {
-      newInterval = Math.round(item.interval * newEaseFactor);
+export function updateItemAfterReview(
+  item: LearningItem,
+  result: ReviewResult,
+  globalSettings: UserSettings,
+  allItems: LearningItem[] = [],
+  variant: CardVariant = 'forward'
+): LearningItem {
+  const settings = getDeckSettings(globalSettings, item.deckId);
+  const dueCounts = settings.enableFuzz && settings.enableLoadBalancing
+    ? getDueCountsByDay(allItems.filter(other => other.id !== item.id), settings.dayStartHour)
+    : undefined;
+
+  const previous = getCardSchedule(item, variant);
+  const scheduled = scheduleCard(previous, result, settings, Date.now(), dueCounts);
+  const updatedItem = setCardSchedule(item, variant, scheduled);
+
+  const lapses = scheduled.schedulerState.lapses;
+  if (lapses > previous.schedulerState.lapses && reachesLeechThreshold(lapses, settings.leechThreshold)) {
+    return markAsLeech(updatedItem, settings.autoSuspendLeeches);
+  }
+  return updatedItem;
+}
+
+/**
+ * 遗忘次数达到阈值时标记为 leech，之后每多遗忘半个阈值再次提醒
+ */
+function reachesLeechThreshold(lapses: number, threshold: number): boolean {
+  if (threshold <= 0 || lapses < threshold) return false;
+
+  const repeatEvery = Math.max(1, Math.ceil(threshold / 2));
+  return (lapses - threshold) % repeatEvery === 0;
+}
+
+function markAsLeech(item: LearningItem, suspend: boolean): LearningItem {
+  const tags = item.tags || [];
+
+  return {
+    ...item,
+    tags: tags.includes(LEECH_TAG) ? tags : [...tags, LEECH_TAG],
+    isSuspended: suspend || item.isSuspended
+  };
+}
+
+/**
+ * 判断学习项目是否被标记为 leech（反复遗忘的卡片）
+ * @param item 学习项目
+ */
+export function isLeech(item: LearningItem): boolean {
+  return !!item.tags?.includes(LEECH_TAG);
+}
+
+/**
+ * 获取学习项目某种卡片的调度字段
+ * 反向和听写卡片第一次被访问时作为新卡片创建
+ * @param item 学习项目
+ * @param variant 卡片类型
+ */
+export function getCardSchedule(item: LearningItem, variant: CardVariant): CardSchedule {
+  if (variant === 'forward') {
+    return toCardSchedule(item);
+  }
+
+  return item.variants?.[variant] ?? {
+    lastReviewedAt: 0,
+    nextReviewAt: item.createdAt,
+    interval: 0,
+    easeFactor: DEFAULT_EASE_FACTOR,
+    schedulerState: getScheduler(item.schedulerState.scheduler).createInitialState()
+  };
+}
+
+/**
+ * 写回学习项目某种卡片的调度字段
+ * @param item 学习项目
+ * @param variant 卡片类型
+ * @param schedule 新的调度字段
+ */
+export function setCardSchedule(
+  item: LearningItem,
+  variant: CardVariant,
+  schedule: CardSchedule
+): LearningItem {
+  if (variant === 'forward') {
+    return { ...item, ...schedule };
+  }
+  return { ...item, variants: { ...item.variants, [variant]: schedule } };
+}
+
+/**
+ * 获取学习项目启用的卡片类型
+ * @param item 学习项目
+ * @param variantSettings 全局的卡片设置，项目自身的设置优先
+ */
+export function getItemVariants(item: LearningItem, variantSettings?: CardVariantSettings): CardVariant[] {
+  const variants: CardVariant[] = ['forward'];
+  if (item.reverseEnabled ?? variantSettings?.enableReverseCards) {
+    variants.push('reverse');
+  }
+  if (item.dictationEnabled ?? variantSettings?.enableDictationCards) {
+    variants.push('dictation');
+  }
+  return variants;
+}
+
+/**
+ * 将学习项目展开为所有启用的卡片
+ * @param items 学习项目列表
+ * @param variantSettings 全局的卡片设置
+ */
+export function getReviewCards(items: LearningItem[], variantSettings?: CardVariantSettings): ReviewCard[] {
+  return items.flatMap(item =>
+    getItemVariants(item, variantSettings).map(variant => ({ item, variant }))
+  );
+}
+
+/**
+ * 计算一张卡片的下一次复习安排
+ * 新卡片和遗忘的卡片先按分钟级的学习步骤在当天内重复出现，
+ * 走完步骤后才交给调度器按天安排间隔
+ * @param card 卡片的调度字段
+ * @param result 复习结果
+ * @param settings 用户设置
+ * @param now 当前时间
+ * @param dueCounts 每个学习日已到期的卡片数量，用于负载均衡
+ * @returns 更新后的调度字段
+ */
+export function scheduleCard(
+  card: CardSchedule,
+  result: ReviewResult,
+  settings: UserSettings,
+  now: number,
+  dueCounts?: Map<string, number>
+): CardSchedule {
+  const scheduler = getScheduler(settings.scheduler);
+  const state = card.schedulerState;
+  const passed = result.quality >= 3;
+
+  switch (state.state) {
+    case 'new':
+    case 'learning': {
+      const steps = settings.learningSteps;
+      const nextStep = passed ? state.step + 1 : 0;
+
+      if (steps.length > 0 && result.quality < 5 && nextStep < steps.length) {
+        return scheduleLearningStep(card, 'learning', nextStep, steps, now);
+      }
+
+      // 毕业：按首次复习交给调度器计算间隔
+      const graduated = scheduler.schedule(
+        {
+          ...card,
+          interval: 0,
+          lastReviewedAt: 0,
+          schedulerState: { ...state, stability: undefined, difficulty: undefined }
+        },
+        result,
+        now
+      );
+      return withCardState(applyFuzz(graduated, settings, now, dueCounts), 'review');
+    }
+
+    case 'relearning': {
+      const steps = settings.relearningSteps;
+      const nextStep = passed ? state.step + 1 : 0;
+
+      if (steps.length > 0 && result.quality < 5 && nextStep < steps.length) {
+        return scheduleLearningStep(card, 'relearning', nextStep, steps, now);
+      }
+
+      // 重学完成，恢复遗忘时调度器给出的间隔
+      return withCardState(
+        {
+          ...card,
+          lastReviewedAt: now,
+          nextReviewAt: now + card.interval * DAY_MS
+        },
+        'review'
+      );
+    }
+
+    default: {
+      const reviewed = scheduler.schedule(card, result, now);
+      const scheduled: CardSchedule = {
+        ...reviewed,
+        schedulerState: {
+          ...reviewed.schedulerState,
+          lapses: passed ? state.lapses : state.lapses + 1
+        }
+      };
+
+      if (!passed && settings.relearningSteps.length > 0) {
+        return scheduleLearningStep(scheduled, 'relearning', 0, settings.relearningSteps, now);
+      }
+      return withCardState(
+        passed ? applyFuzz(scheduled, settings, now, dueCounts) : scheduled,
+        'review'
+      );
     }
-  } else {
-    // 回答错误，重置间隔
-    newInterval = 1;
   }
+}
 
-  // 更新记忆因子
-  newEaseFactor = newEaseFactor + (0.1 - (5 - result.quality) * (0.08 + (5 - result.quality) * 0.02));
-  
-  // 确保记忆因子不低于最小值
-  if (newEaseFactor < MIN_EASE_FACTOR) {
-    newEaseFactor = MIN_EASE_FACTOR;
+/**
+ * 对按天计算的间隔做随机浮动，开启负载均衡时选择到期卡片最少的一天
+ */
+function applyFuzz(
+  card: CardSchedule,
+  settings: UserSettings,
+  now: number,
+  dueCounts?: Map<string, number>
+): CardSchedule {
+  if (!settings.enableFuzz) {
+    return card;
   }
 
-  // 计算下次复习时间
-  const nextReviewAt = now + (newInterval * 24 * 60 * 60 * 1000);
+  const interval = fuzzInterval(card.interval, now, settings.dayStartHour, dueCounts);
+  return {
+    ...card,
+    interval,
+    nextReviewAt: now + interval * DAY_MS
+  };
+}
 
+/**
+ * 将卡片安排到学习步骤中，在若干分钟后再次出现
+ */
+function scheduleLearningStep(
+  card: CardSchedule,
+  state: 'learning' | 'relearning',
+  step: number,
+  steps: number[],
+  now: number
+): CardSchedule {
   return {
-    ...item,
+    ...card,
     lastReviewedAt: now,
-    nextReviewAt,
-    interval: newInterval,
-    easeFactor: newEaseFactor
+    nextReviewAt: now + steps[step] * MINUTE_MS,
+    schedulerState: { ...card.schedulerState, state, step }
+  };
+}
+
+function withCardState(card: CardSchedule, state: CardState): CardSchedule {
+  return {
+    ...card,
+    schedulerState: { ...card.schedulerState, state, step: 0 }
+  };
+}
+
+/**
+ * 判断卡片是否处于当天内重复的学习步骤中
+ * @param card 卡片的调度字段
+ */
+export function isInLearningSteps(card: CardSchedule): boolean {
+  const { state } = card.schedulerState;
+  return state === 'learning' || state === 'relearning';
+}
+
+/**
+ * 生成一条复习记录
+ * @param previousItem 复习前的学习项目
+ * @param updatedItem 复习后的学习项目
+ * @param result 复习结果
+ * @param timeTaken 卡片停留时间（毫秒）
+ * @param variant 复习的卡片类型
+ * @returns 复习记录
+ */
+export function createReviewLogEntry(
+  previousItem: LearningItem,
+  updatedItem: LearningItem,
+  result: ReviewResult,
+  timeTaken: number = 0,
+  variant: CardVariant = 'forward'
+): ReviewLogEntry {
+  const previous = getCardSchedule(previousItem, variant);
+  const updated = getCardSchedule(updatedItem, variant);
+
+  return {
+    id: generateId(),
+    itemId: updatedItem.id,
+    reviewedAt: updated.lastReviewedAt,
+    quality: result.quality,
+    cardState: previous.schedulerState.state,
+    variant,
+    timeTaken,
+    previousInterval: previous.interval,
+    newInterval: updated.interval,
+    previousEaseFactor: previous.easeFactor,
+    newEaseFactor: updated.easeFactor,
+    scheduler: updated.schedulerState.scheduler
+  };
+}
+
+/**
+ * 生成一条突击复习记录，调度状态保持不变
+ * @param item 学习项目
+ * @param result 复习结果
+ * @param timeTaken 卡片停留时间（毫秒）
+ * @param variant 复习的卡片类型
+ */
+export function createCramLogEntry(
+  item: LearningItem,
+  result: ReviewResult,
+  timeTaken: number = 0,
+  variant: CardVariant = 'forward'
+): ReviewLogEntry {
+  return {
+    ...createReviewLogEntry(item, item, result, timeTaken, variant),
+    reviewedAt: Date.now(),
+    isCram: true
+  };
+}
+
+/**
+ * 撤销复习：把学习项目某种卡片的调度字段恢复为复习前的状态
+ * 复习时可能被标记为 leech 或自动暂停，这些字段一并恢复
+ * @param item 当前的学习项目
+ * @param previousItem 复习前的学习项目
+ * @param variant 复习的卡片类型
+ * @returns 恢复后的学习项目
+ */
+export function restoreItemSchedule(
+  item: LearningItem,
+  previousItem: LearningItem,
+  variant: CardVariant = 'forward'
+): LearningItem {
+  return {
+    ...setCardSchedule(item, variant, getCardSchedule(previousItem, variant)),
+    tags: previousItem.tags,
+    isSuspended: previousItem.isSuspended
   };
 }
 
@@ -63,6 +388,8 @@ export function updateItemAfterReview(item: LearningItem, result: ReviewResult):
  * @param type 类型
  * @param context 上下文
  * @param userId 用户ID
+ * @param schedulerType 使用的调度算法
+ * @param details AI 返回的词性、音标、说明、例句等，未提供的字段不保存
  * @returns 新的学习项目
  */
 export function createLearningItem(
@@ -70,7 +397,9 @@ export function createLearningItem(
   translation: string,
   type: 'word' | 'sentence',
   context?: string,
-  userId: string = 'local'
+  userId: string = 'local',
+  schedulerType: SchedulerType = 'sm2',
+  details: LearningItemDetails = {}
 ): LearningItem {
   const now = Date.now();
   
@@ -79,48 +408,402 @@ export function createLearningItem(
     type,
     content,
     translation,
+    ...Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined)),
     context,
     createdAt: now,
     lastReviewedAt: 0,
-    nextReviewAt: now + (INITIAL_INTERVAL * 24 * 60 * 60 * 1000),
-    interval: INITIAL_INTERVAL,
+    nextReviewAt: now, // 新卡片立即进入学习步骤
+    interval: 0,
     easeFactor: DEFAULT_EASE_FACTOR,
+    schedulerState: getScheduler(schedulerType).createInitialState(),
     userId
   };
 }
 
 /**
- * 获取今天需要复习的项目
+ * 迁移旧版本的学习项目，补全调度器状态，修正误存为词性的 type，
+ * 并把单个上下文和来源转换为遇到记录
+ * 只补充缺失字段，不改变已有的复习时间
+ * @param storedItem 存储中的学习项目
+ * @returns 迁移后的学习项目
+ */
+export function migrateLearningItem(storedItem: LearningItem): LearningItem {
+  // 旧版本保存时把词性（如 "名词"）写进了 type 字段
+  const typedItem: LearningItem = storedItem.type === 'word' || storedItem.type === 'sentence'
+    ? storedItem
+    : { ...storedItem, type: 'word', wordType: storedItem.wordType || storedItem.type };
+
+  const legacyEncounters = typedItem.encounters ? undefined : getLegacyEncounters(typedItem);
+  const item: LearningItem = legacyEncounters ? { ...typedItem, encounters: legacyEncounters } : typedItem;
+
+  const previousState: Partial<SchedulerState> = item.schedulerState ?? {};
+  if (previousState.state && previousState.lapses !== undefined) {
+    return item;
+  }
+
+  const reviewed = item.lastReviewedAt > 0;
+
+  return {
+    ...item,
+    easeFactor: item.easeFactor || DEFAULT_EASE_FACTOR,
+    schedulerState: {
+      ...previousState,
+      scheduler: previousState.scheduler ?? 'sm2',
+      state: previousState.state ?? (reviewed ? 'review' : 'new'),
+      step: previousState.step ?? 0,
+      repetitions: previousState.repetitions ?? (reviewed ? 1 : 0),
+      lapses: previousState.lapses ?? 0
+    }
+  };
+}
+
+/**
+ * 暂停、搁置或恢复学习项目，或切换反向 / 听写卡片
+ * 搁置的项目在下一个学习日开始时自动恢复
+ * @param item 学习项目
+ * @param action 状态操作
+ * @param dayStartHour 每天开始的小时
+ * @returns 更新后的学习项目
+ */
+export function applyItemStatus(
+  item: LearningItem,
+  action: ItemStatusAction,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): LearningItem {
+  switch (action) {
+    case 'suspend':
+      return { ...item, isSuspended: true };
+    case 'unsuspend':
+      return { ...item, isSuspended: false };
+    case 'bury':
+      return { ...item, buriedUntil: getNextDayStart(Date.now(), dayStartHour) };
+    case 'unbury':
+      return { ...item, buriedUntil: undefined };
+    case 'enableReverse':
+      return { ...item, reverseEnabled: true };
+    case 'disableReverse':
+      return { ...item, reverseEnabled: false };
+    case 'enableDictation':
+      return { ...item, dictationEnabled: true };
+    case 'disableDictation':
+      return { ...item, dictationEnabled: false };
+  }
+}
+
+/**
+ * 重置学习项目的复习进度：正向卡片回到新卡片状态，其他卡片的调度状态被清除
+ * 同时移除 leech 标签，暂停状态保持不变
+ * @param item 学习项目
+ * @param schedulerType 使用的调度算法
+ * @returns 重置后的学习项目
+ */
+export function resetItemSchedule(item: LearningItem, schedulerType: SchedulerType = 'sm2'): LearningItem {
+  const tags = item.tags?.filter(tag => tag !== LEECH_TAG);
+
+  return {
+    ...item,
+    lastReviewedAt: 0,
+    nextReviewAt: Date.now(),
+    interval: 0,
+    easeFactor: DEFAULT_EASE_FACTOR,
+    schedulerState: getScheduler(schedulerType).createInitialState(),
+    variants: undefined,
+    tags: tags?.length ? tags : undefined
+  };
+}
+
+/**
+ * 手动设置学习项目所有卡片的到期时间，不改变间隔和调度器状态
+ * @param item 学习项目
+ * @param days 距今天的学习日数，0 表示立即到期
+ * @param variantSettings 全局的反向 / 听写卡片设置
+ * @param dayStartHour 每天开始的小时
+ * @returns 更新后的学习项目
+ */
+export function rescheduleItem(
+  item: LearningItem,
+  days: number,
+  variantSettings?: CardVariantSettings,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): LearningItem {
+  const now = Date.now();
+  const nextReviewAt = days > 0 ? getNextDayStart(now, dayStartHour, days) : now;
+
+  return getItemVariants(item, variantSettings).reduce<LearningItem>(
+    (updated, variant) => setCardSchedule(updated, variant, { ...getCardSchedule(updated, variant), nextReviewAt }),
+    { ...item, buriedUntil: undefined }
+  );
+}
+
+/**
+ * 获取学习项目最后一次变化的时间：修改时间以及所有卡片中最近的复习时间
+ * @param item 学习项目
+ */
+export function getLastModifiedAt(item: LearningItem): number {
+  const variantReviews = Object.values(item.variants ?? {}).map(schedule => schedule?.lastReviewedAt ?? 0);
+  return Math.max(item.updatedAt ?? 0, item.lastReviewedAt, ...variantReviews);
+}
+
+/**
+ * 判断学习项目是否处于搁置中
+ * @param item 学习项目
+ */
+export function isBuried(item: LearningItem): boolean {
+  return !!item.buriedUntil && item.buriedUntil > Date.now();
+}
+
+/**
+ * 整理上下文用于比较：忽略大小写和多余空白
+ */
+function normalizeContext(text?: string): string {
+  return (text || '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * 判断句子项目是否为另一个项目在同一页面中遇到的句子
+ */
+function isSentenceOf(sentence: LearningItem, item: LearningItem): boolean {
+  if (sentence.type !== 'sentence') return false;
+
+  const content = normalizeContext(sentence.content);
+  const urls = new Set(getItemEncounters(sentence).map(encounter => encounter.sourceUrl));
+  return getItemEncounters(item).some(encounter =>
+    !!encounter.sourceUrl && urls.has(encounter.sourceUrl) && normalizeContext(encounter.context) === content
+  );
+}
+
+/**
+ * 判断两个学习项目是否为兄弟项目：
+ * 在同一个上下文中遇到过，或同一页面中的句子和从这个句子里保存的单词
+ * 比较所有遇到记录的句子和来源
+ * @param a 学习项目
+ * @param b 学习项目
+ */
+export function areSiblings(a: LearningItem, b: LearningItem): boolean {
+  if (a.id === b.id) return false;
+
+  const contextsA = new Set(getItemEncounters(a).map(encounter => normalizeContext(encounter.context)));
+  const sharesContext = getItemEncounters(b).some(encounter => {
+    const context = normalizeContext(encounter.context);
+    return !!context && contextsA.has(context);
+  });
+
+  return sharesContext || isSentenceOf(a, b) || isSentenceOf(b, a);
+}
+
+/**
+ * 找出复习一个项目后需要搁置的兄弟项目
+ * 只搁置今天有卡片到期、且没有卡片处于学习步骤中的项目
+ * @param item 刚复习的学习项目
+ * @param items 所有学习项目
+ * @param settings 用户设置
+ * @param now 当前时间
+ */
+export function getSiblingsToBury(
+  item: LearningItem,
+  items: LearningItem[],
+  settings: UserSettings,
+  now: number = Date.now()
+): LearningItem[] {
+  const tomorrow = getNextDayStart(now, settings.dayStartHour);
+
+  return items.filter(other => {
+    if (other.isSuspended || isBuried(other) || !areSiblings(item, other)) return false;
+
+    const schedules = getItemVariants(other, settings).map(variant => getCardSchedule(other, variant));
+    return (
+      !schedules.some(isInLearningSteps) &&
+      schedules.some(schedule => schedule.nextReviewAt < tomorrow)
+    );
+  });
+}
+
+/**
+ * 判断卡片当前是否到期
+ * 按天安排的复习卡片在到期的整个学习日内都可复习，
+ * 学习步骤中的卡片和新卡片则按精确时间判断
+ * @param card 复习卡片
+ * @param now 当前时间
+ * @param dayStartHour 每天开始的小时
+ */
+export function isCardDue(
+  card: ReviewCard,
+  now: number,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): boolean {
+  const { item } = card;
+  if (item.isSuspended || (item.buriedUntil && item.buriedUntil > now)) {
+    return false;
+  }
+
+  const schedule = getCardSchedule(item, card.variant);
+  if (schedule.schedulerState.state === 'review') {
+    return schedule.nextReviewAt < getNextDayStart(now, dayStartHour);
+  }
+  return schedule.nextReviewAt <= now;
+}
+
+/**
+ * 获取今天需要复习的卡片
  * @param items 所有学习项目
- * @returns 需要复习的项目列表
+ * @param dayStartHour 每天开始的小时
+ * @param variantSettings 全局的卡片设置
+ * @returns 需要复习的卡片列表
  */
-export function getTodayReviewItems(items: LearningItem[]): LearningItem[] {
+export function getTodayReviewItems(
+  items: LearningItem[],
+  dayStartHour: number = DEFAULT_DAY_START_HOUR,
+  variantSettings?: CardVariantSettings
+): ReviewCard[] {
   const now = Date.now();
-  return items.filter(item => item.nextReviewAt <= now);
+  return getReviewCards(items, variantSettings).filter(card => isCardDue(card, now, dayStartHour));
+}
+
+/**
+ * 构建今天的复习队列
+ * 按每日复习上限和新卡片上限截取，今天已完成的数量从复习记录中扣除
+ * 每个牌组先受自己的上限约束，复习全部牌组时再受全局上限约束
+ * 顺序：学习步骤中的卡片 > 逾期最久的复习卡片，新卡片均匀穿插其中
+ * @param items 所有学习项目
+ * @param reviewLog 复习记录
+ * @param settings 用户设置
+ * @param deckId 只复习该牌组，未设置时复习全部
+ * @returns 复习队列
+ */
+export function buildReviewQueue(
+  items: LearningItem[],
+  reviewLog: ReviewLogEntry[],
+  settings: UserSettings,
+  deckId?: string
+): ReviewCard[] {
+  const today = getDayKey(Date.now(), settings.dayStartHour);
+  const dueCards = getTodayReviewItems(filterItemsByDeck(items, deckId), settings.dayStartHour, settings)
+    .map(card => ({ card, schedule: getCardSchedule(card.item, card.variant) }));
+
+  // 统计今天已经复习过的复习卡片和新卡片所属的牌组，同一项目的不同卡片分别计数
+  const itemDecks = new Map(items.map(item => [item.id, item.deckId]));
+  const reviewedToday = new Map<string, string | undefined>();
+  const learnedToday = new Map<string, string | undefined>();
+  reviewLog
+    .filter(entry => !entry.isCram && getDayKey(entry.reviewedAt, settings.dayStartHour) === today)
+    .forEach(entry => {
+      const cardKey = `${entry.itemId}:${entry.variant ?? 'forward'}`;
+      if (entry.cardState === 'new') {
+        learnedToday.set(cardKey, itemDecks.get(entry.itemId));
+      } else if (entry.cardState === 'review') {
+        reviewedToday.set(cardKey, itemDecks.get(entry.itemId));
+      }
+    });
+
+  const learningCards = dueCards
+    .filter(({ schedule }) => isInLearningSteps(schedule))
+    .sort((a, b) => a.schedule.nextReviewAt - b.schedule.nextReviewAt)
+    .map(({ card }) => card);
+
+  const reviewCards = dueCards
+    .filter(({ schedule }) => schedule.schedulerState.state === 'review')
+    .sort((a, b) => a.schedule.nextReviewAt - b.schedule.nextReviewAt) // 逾期最久的在前
+    .map(({ card }) => card);
+
+  const newCards = dueCards
+    .filter(({ schedule }) => schedule.schedulerState.state === 'new')
+    .sort((a, b) => a.card.item.createdAt - b.card.item.createdAt)
+    .map(({ card }) => card);
+
+  return [
+    ...learningCards,
+    ...interleave(
+      takeWithinLimits(reviewCards, reviewedToday, 'dailyReviewLimit', settings, deckId),
+      takeWithinLimits(newCards, learnedToday, 'dailyNewLimit', settings, deckId)
+    )
+  ];
+}
+
+/**
+ * 按牌组的每日上限截取卡片，复习全部牌组时同时受全局上限约束
+ * @param cards 按优先级排好的卡片
+ * @param doneToday 今天已完成的卡片及其所属的牌组
+ * @param limitKey 使用的上限
+ * @param settings 用户设置
+ * @param deckId 只复习该牌组时的牌组 ID
+ */
+function takeWithinLimits(
+  cards: ReviewCard[],
+  doneToday: Map<string, string | undefined>,
+  limitKey: 'dailyReviewLimit' | 'dailyNewLimit',
+  settings: UserSettings,
+  deckId?: string
+): ReviewCard[] {
+  const doneDecks = Array.from(doneToday.values());
+  const remaining = new Map<string | undefined, number>();
+  let totalRemaining = deckId ? Infinity : settings[limitKey] - doneDecks.length;
+
+  return cards.filter(({ item }) => {
+    if (!remaining.has(item.deckId)) {
+      const done = doneDecks.filter(doneDeckId => doneDeckId === item.deckId).length;
+      remaining.set(item.deckId, getDeckSettings(settings, item.deckId)[limitKey] - done);
+    }
+    const deckRemaining = remaining.get(item.deckId)!;
+    if (totalRemaining <= 0 || deckRemaining <= 0) return false;
+
+    remaining.set(item.deckId, deckRemaining - 1);
+    totalRemaining--;
+    return true;
+  });
+}
+
+/**
+ * 将新卡片均匀穿插到复习卡片之间
+ */
+function interleave(reviewCards: ReviewCard[], newCards: ReviewCard[]): ReviewCard[] {
+  if (newCards.length === 0) return reviewCards;
+
+  const gap = Math.max(1, Math.floor(reviewCards.length / newCards.length));
+  const result: ReviewCard[] = [];
+  let newIndex = 0;
+
+  reviewCards.forEach((card, index) => {
+    result.push(card);
+    if ((index + 1) % gap === 0 && newIndex < newCards.length) {
+      result.push(newCards[newIndex++]);
+    }
+  });
+
+  return [...result, ...newCards.slice(newIndex)];
 }
 
 /**
  * 获取复习统计信息
+ * 待复习和明天到期的数量按卡片计算，包含反向和听写卡片
  * @param items 所有学习项目
+ * @param reviewLog 复习记录
+ * @param dayStartHour 每天开始的小时
+ * @param variantSettings 全局的卡片设置
  * @returns 统计信息
  */
-export function getReviewStats(items: LearningItem[]) {
+export function getReviewStats(
+  items: LearningItem[],
+  reviewLog: ReviewLogEntry[],
+  dayStartHour: number = DEFAULT_DAY_START_HOUR,
+  variantSettings?: CardVariantSettings
+) {
   const now = Date.now();
-  const today = new Date().toDateString();
+  const today = getDayKey(now, dayStartHour);
   
-  const todayReviews = items.filter(item => 
-    new Date(item.lastReviewedAt).toDateString() === today
+  // 突击复习不改变调度状态，不计入今天的复习数量
+  const todayReviews = reviewLog.filter(entry => 
+    !entry.isCram && getDayKey(entry.reviewedAt, dayStartHour) === today
   ).length;
   
-  const pendingReviews = items.filter(item => item.nextReviewAt <= now).length;
+  const pendingReviews = getTodayReviewItems(items, dayStartHour, variantSettings).length;
   
   const totalItems = items.length;
   
-  const upcomingReviews = items.filter(item => {
-    const reviewDate = new Date(item.nextReviewAt);
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return reviewDate.toDateString() === tomorrow.toDateString();
+  const tomorrowStart = getNextDayStart(now, dayStartHour);
+  const tomorrowEnd = getNextDayStart(now, dayStartHour, 2);
+  const upcomingReviews = getReviewCards(items, variantSettings).filter(card => {
+    const { nextReviewAt } = getCardSchedule(card.item, card.variant);
+    return nextReviewAt >= tomorrowStart && nextReviewAt < tomorrowEnd;
   }).length;
 
   return {
@@ -131,6 +814,99 @@ export function getReviewStats(items: LearningItem[]) {
   };
 }
 
+/**
+ * 预测未来若干天的复习负载和记忆保持率
+ * 假设每张到期卡片都按时复习并回答 "Good"，新卡片按每日上限依次引入，
+ * 用当前的间隔、记忆因子和调度器状态模拟之后的到期日，每张卡片使用所属牌组的调度设置
+ * @param items 所有学习项目
+ * @param reviewLog 复习记录，用于扣除今天已学习的新卡片
+ * @param settings 用户设置
+ * @param days 预测天数（包含今天）
+ * @returns 每个学习日的预测
+ */
+export function getReviewForecast(
+  items: LearningItem[],
+  reviewLog: ReviewLogEntry[],
+  settings: UserSettings,
+  days: number = 30
+): ReviewForecastDay[] {
+  const now = Date.now();
+  const { dayStartHour } = settings;
+  // 模拟时不做随机浮动，保证结果稳定
+  const simulation: UserSettings = { ...settings, enableFuzz: false };
+  const today = getDayKey(now, dayStartHour);
+
+  const learnedToday = new Set(
+    reviewLog
+      .filter(entry =>
+        !entry.isCram && entry.cardState === 'new' && getDayKey(entry.reviewedAt, dayStartHour) === today
+      )
+      .map(entry => `${entry.itemId}:${entry.variant ?? 'forward'}`)
+  ).size;
+
+  const activeCards = getReviewCards(items.filter(item => !item.isSuspended), settings)
+    .map(card => ({
+      createdAt: card.item.createdAt,
+      schedule: getCardSchedule(card.item, card.variant),
+      settings: getDeckSettings(simulation, card.item.deckId)
+    }));
+  const newCards = activeCards
+    .filter(({ schedule }) => schedule.schedulerState.state === 'new')
+    .sort((a, b) => a.createdAt - b.createdAt);
+  let cards = activeCards.filter(({ schedule }) => schedule.schedulerState.state !== 'new');
+  let newIndex = 0;
+
+  return Array.from({ length: days }, (_, day) => {
+    const dayStart = Math.max(now, getNextDayStart(now, dayStartHour, day));
+    const dayEnd = getNextDayStart(now, dayStartHour, day + 1);
+
+    const newLimit = day === 0 ? settings.dailyNewLimit - learnedToday : settings.dailyNewLimit;
+    const introduced = newCards.slice(newIndex, newIndex + Math.max(0, newLimit));
+    newIndex += introduced.length;
+
+    // 复习前的平均回忆概率
+    const retention = cards.map(card =>
+      getScheduler(card.settings.scheduler).retrievability(card.schedule, dayStart)
+    );
+    const expectedRetention = retention.length > 0
+      ? retention.reduce((sum, value) => sum + value, 0) / retention.length
+      : 0;
+
+    let dueCount = 0;
+    cards = [
+      ...cards,
+      ...introduced.map(card => ({ ...card, schedule: { ...card.schedule, nextReviewAt: dayStart } }))
+    ].map(card => {
+      if (card.schedule.nextReviewAt >= dayEnd) return card;
+      if (card.schedule.schedulerState.state !== 'new') dueCount++;
+
+      let simulated = card.schedule;
+      for (let i = 0; i < MAX_SIMULATED_REVIEWS_PER_DAY && simulated.nextReviewAt < dayEnd; i++) {
+        const reviewedAt = Math.max(simulated.nextReviewAt, dayStart);
+        simulated = scheduleCard(simulated, { quality: 4 }, card.settings, reviewedAt);
+      }
+      return { ...card, schedule: simulated };
+    });
+
+    return {
+      date: getDayKey(dayStart, dayStartHour),
+      dueCount,
+      newCount: introduced.length,
+      expectedRetention
+    };
+  });
+}
+
+function toCardSchedule(item: LearningItem): CardSchedule {
+  return {
+    lastReviewedAt: item.lastReviewedAt,
+    nextReviewAt: item.nextReviewAt,
+    interval: item.interval,
+    easeFactor: item.easeFactor,
+    schedulerState: item.schedulerState
+  };
+}
+
 /**
  * 生成唯一ID
  */
@@ -152,30 +928,30 @@ export function calculateProgress(items: LearningItem[]): number {
 
 /**
  * 获取学习连续天数
- * @param items 学习项目列表
+ * @param reviewLog 复习记录
+ * @param dayStartHour 每天开始的小时
  * @returns 连续学习天数
  */
-export function getStudyStreak(items: LearningItem[]): number {
-  const reviewDates = items
-    .filter(item => item.lastReviewedAt > 0)
-    .map(item => new Date(item.lastReviewedAt).toDateString())
-    .sort()
-    .filter((date, index, arr) => arr.indexOf(date) === index); // 去重
+export function getStudyStreak(
+  reviewLog: ReviewLogEntry[],
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): number {
+  // YYYY-MM-DD 格式的学习日标识可以直接按字符串排序
+  const reviewDates = Array.from(
+    new Set(reviewLog.map(entry => getDayKey(entry.reviewedAt, dayStartHour)))
+  ).sort();
 
   if (reviewDates.length === 0) return 0;
 
   let streak = 1;
-  const today = new Date().toDateString();
+  const today = getDayKey(Date.now(), dayStartHour);
   
   if (reviewDates[reviewDates.length - 1] !== today) {
     return 0; // 今天没有学习
   }
 
   for (let i = reviewDates.length - 2; i >= 0; i--) {
-    const currentDate = new Date(reviewDates[i + 1]);
-    const prevDate = new Date(reviewDates[i]);
-    const diffTime = currentDate.getTime() - prevDate.getTime();
-    const diffDays = diffTime / (1000 * 60 * 60 * 24);
+    const diffDays = getDaysBetween(reviewDates[i], reviewDates[i + 1]);
     
     if (diffDays === 1) {
       streak++;
@@ -185,4 +961,117 @@ export function getStudyStreak(items: LearningItem[]): number {
   }
 
   return streak;
-}
\ No newline at end of file
+}
+
+/**
+ * 汇总一次复习会话
+ * 评分 >= 3 视为答对；最困难的项目按答错次数、平均评分、用时排序，只列出平均评分低于 Good 的项目
+ * @param entries 本次会话产生的复习记录
+ * @param startedAt 会话开始时间
+ * @param reviewMode 使用的复习方式
+ * @param endedAt 会话结束时间
+ */
+export function createReviewSession(
+  entries: ReviewLogEntry[],
+  startedAt: number,
+  reviewMode: ReviewMode,
+  endedAt: number = Date.now()
+): ReviewSession {
+  const ratingCounts = [0, 0, 0, 0, 0, 0];
+  entries.forEach(entry => ratingCounts[entry.quality]++);
+
+  const cardKeys = new Set(entries.map(entry => `${entry.itemId}:${entry.variant || 'forward'}`));
+  const newCardKeys = new Set(
+    entries
+      .filter(entry => entry.cardState === 'new')
+      .map(entry => `${entry.itemId}:${entry.variant || 'forward'}`)
+  );
+
+  const byItem = new Map<string, { fails: number; qualitySum: number; count: number; time: number }>();
+  entries.forEach(entry => {
+    const stats = byItem.get(entry.itemId) || { fails: 0, qualitySum: 0, count: 0, time: 0 };
+    stats.fails += entry.quality < 3 ? 1 : 0;
+    stats.qualitySum += entry.quality;
+    stats.count++;
+    stats.time += entry.timeTaken;
+    byItem.set(entry.itemId, stats);
+  });
+
+  const hardestItemIds = Array.from(byItem.entries())
+    .filter(([, stats]) => stats.qualitySum / stats.count < 4)
+    .sort(([, a], [, b]) =>
+      b.fails - a.fails ||
+      a.qualitySum / a.count - b.qualitySum / b.count ||
+      b.time - a.time
+    )
+    .slice(0, HARDEST_ITEM_COUNT)
+    .map(([itemId]) => itemId);
+
+  return {
+    id: generateId(),
+    startedAt,
+    endedAt,
+    reviewMode,
+    reviewCount: entries.length,
+    cardCount: cardKeys.size,
+    newCount: newCardKeys.size,
+    ratingCounts,
+    correctCount: entries.filter(entry => entry.quality >= 3).length,
+    totalTime: entries.reduce((sum, entry) => sum + entry.timeTaken, 0),
+    hardestItemIds
+  };
+}
+
+/**
+ * 找出本次会话中答错过的卡片，用于重新学习
+ * @param entries 本次会话产生的复习记录
+ * @returns 卡片的项目 ID 和类型，按第一次答错的顺序
+ */
+export function getFailedCards(entries: ReviewLogEntry[]): { itemId: string; variant: CardVariant }[] {
+  const seen = new Set<string>();
+  const failed: { itemId: string; variant: CardVariant }[] = [];
+
+  entries.forEach(entry => {
+    const variant = entry.variant || 'forward';
+    const key = `${entry.itemId}:${variant}`;
+    if (entry.quality < 3 && !seen.has(key)) {
+      seen.add(key);
+      failed.push({ itemId: entry.itemId, variant });
+    }
+  });
+
+  return failed;
+}
+
+/**
+ * 按学习日汇总最近若干天的复习会话，没有复习的日子也保留一条
+ * @param sessions 复习会话统计
+ * @param days 天数（包含今天）
+ * @param dayStartHour 每天开始的小时
+ */
+export function getSessionHistory(
+  sessions: ReviewSession[],
+  days: number,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): ReviewSessionDay[] {
+  const now = Date.now();
+  const history = Array.from({ length: days }, (_, index): ReviewSessionDay => ({
+    date: getDayKey(getNextDayStart(now, dayStartHour, index - days + 1), dayStartHour),
+    sessionCount: 0,
+    reviewCount: 0,
+    correctCount: 0,
+    totalTime: 0
+  }));
+  const byDate = new Map(history.map(day => [day.date, day]));
+
+  sessions.forEach(session => {
+    const day = byDate.get(getDayKey(session.startedAt, dayStartHour));
+    if (!day) return;
+    day.sessionCount++;
+    day.reviewCount += session.reviewCount;
+    day.correctCount += session.correctCount;
+    day.totalTime += session.totalTime;
+  });
+
+  return history;
+}
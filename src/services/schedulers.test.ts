@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { CardSchedule, ReviewResult } from '../types';
+import { DEFAULT_EASE_FACTOR, fsrsRetrievability, getScheduler } from './schedulers';
+import { DAY_MS } from './dayBoundary';
+
+const NOW = Date.UTC(2024, 0, 15, 12);
+
+const makeCard = (overrides: Partial<CardSchedule> = {}): CardSchedule => ({
+  lastReviewedAt: 0,
+  nextReviewAt: NOW,
+  interval: 0,
+  easeFactor: DEFAULT_EASE_FACTOR,
+  schedulerState: { scheduler: 'sm2', state: 'review', step: 0, repetitions: 0, lapses: 0 },
+  ...overrides
+});
+
+describe('sm2 scheduler', () => {
+  const sm2 = getScheduler('sm2');
+
+  it.each<[string, number, number, ReviewResult['quality'], number, number]>([
+    // 名称, 当前间隔, 连续答对次数, 评分, 新间隔, 新连续答对次数
+    ['first success', 0, 0, 4, 1, 1],
+    ['second success', 1, 1, 4, 6, 2],
+    ['later success multiplies by ease', 6, 2, 4, 15, 3],
+    ['failure resets', 15, 3, 2, 1, 0],
+    ['forgot resets', 6, 2, 0, 1, 0],
+  ])('%s', (_, interval, repetitions, quality, expectedInterval, expectedRepetitions) => {
+    const card = makeCard({
+      interval,
+      lastReviewedAt: NOW - interval * DAY_MS,
+      schedulerState: { scheduler: 'sm2', state: 'review', step: 0, repetitions, lapses: 0 }
+    });
+    const scheduled = sm2.schedule(card, { quality }, NOW);
+
+    expect(scheduled.interval).toBe(expectedInterval);
+    expect(scheduled.schedulerState.repetitions).toBe(expectedRepetitions);
+    expect(scheduled.lastReviewedAt).toBe(NOW);
+    expect(scheduled.nextReviewAt).toBe(NOW + expectedInterval * DAY_MS);
+  });
+
+  it.each<[ReviewResult['quality'], number]>([
+    [5, 2.6],
+    [4, 2.5],
+    [3, 2.36],
+    [2, 2.18],
+    [1, 1.96],
+    [0, 1.7],
+  ])('quality %i changes ease from 2.5 to %f', (quality, expected) => {
+    expect(sm2.schedule(makeCard(), { quality }, NOW).easeFactor).toBeCloseTo(expected);
+  });
+
+  it('never lowers ease below 1.3', () => {
+    expect(sm2.schedule(makeCard({ easeFactor: 1.4 }), { quality: 0 }, NOW).easeFactor).toBe(1.3);
+  });
+
+  it.each<[string, number, number, number]>([
+    // 名称, 间隔, 经过天数, 回忆概率
+    ['never reviewed', 0, 0, 0],
+    ['just reviewed', 10, 0, 1],
+    ['due today', 10, 10, 0.9],
+  ])('retrievability: %s', (_, interval, elapsedDays, expected) => {
+    const card = makeCard({ interval, lastReviewedAt: elapsedDays || interval ? NOW - elapsedDays * DAY_MS : 0 });
+    expect(sm2.retrievability(card, NOW)).toBeCloseTo(expected);
+  });
+});
+
+describe('fsrs scheduler', () => {
+  const fsrs = getScheduler('fsrs');
+
+  it.each<[ReviewResult['quality'], number, number]>([
+    // 评分, 初始稳定性, 首次间隔（天）
+    [0, 0.4872, 1],
+    [3, 1.4003, 1],
+    [4, 3.7145, 4],
+    [5, 13.8206, 14],
+  ])('first review with quality %i', (quality, stability, interval) => {
+    const scheduled = fsrs.schedule(makeCard(), { quality }, NOW);
+
+    expect(scheduled.schedulerState.scheduler).toBe('fsrs');
+    expect(scheduled.schedulerState.stability).toBeCloseTo(stability);
+    expect(scheduled.interval).toBe(interval);
+  });
+
+  it('grows stability on success and shrinks it on failure', () => {
+    const card = makeCard({
+      interval: 10,
+      lastReviewedAt: NOW - 10 * DAY_MS,
+      schedulerState: { scheduler: 'fsrs', state: 'review', step: 0, repetitions: 3, lapses: 0, stability: 10, difficulty: 5 }
+    });
+
+    const passed = fsrs.schedule(card, { quality: 4 }, NOW);
+    const failed = fsrs.schedule(card, { quality: 0 }, NOW);
+
+    expect(passed.schedulerState.stability).toBeGreaterThan(10);
+    expect(passed.schedulerState.repetitions).toBe(4);
+    expect(failed.schedulerState.stability).toBeLessThan(10);
+    expect(failed.schedulerState.repetitions).toBe(0);
+    expect(failed.schedulerState.difficulty).toBeGreaterThan(5);
+  });
+
+  it('keeps difficulty within 1-10', () => {
+    let card = makeCard();
+    for (let i = 0; i < 20; i++) {
+      card = fsrs.schedule(card, { quality: 0 }, card.nextReviewAt);
+    }
+    expect(card.schedulerState.difficulty).toBeLessThanOrEqual(10);
+
+    for (let i = 0; i < 20; i++) {
+      card = fsrs.schedule(card, { quality: 5 }, card.nextReviewAt);
+    }
+    expect(card.schedulerState.difficulty).toBeGreaterThanOrEqual(1);
+  });
+
+  it('estimates state for cards switched from sm2', () => {
+    const card = makeCard({ interval: 20, easeFactor: 2.5, lastReviewedAt: NOW - 20 * DAY_MS });
+    const scheduled = fsrs.schedule(card, { quality: 4 }, NOW);
+
+    expect(scheduled.schedulerState.difficulty).toBeDefined();
+    expect(scheduled.interval).toBeGreaterThan(20);
+  });
+
+  it.each<[number, number, number]>([
+    // 经过天数, 稳定性, 回忆概率
+    [0, 5, 1],
+    [5, 5, 0.9],
+    [10, 10, 0.9],
+  ])('retrievability after %i days with stability %i', (elapsedDays, stability, expected) => {
+    expect(fsrsRetrievability(elapsedDays, stability)).toBeCloseTo(expected);
+  });
+});
+
+describe('getScheduler', () => {
+  it('falls back to sm2 for unknown types', () => {
+    expect(getScheduler('unknown' as never).name).toBe('sm2');
+  });
+});
@@ -0,0 +1,241 @@
+import { CardSchedule, ReviewResult, Scheduler, SchedulerType } from '../types';
+import { DAY_MS } from './dayBoundary';
+
+/**
+ * 复习调度器 - 统一不同间隔重复算法的调用接口
+ * 目前支持 SM-2 和 FSRS 两种实现
+ */
+
+// SM-2 算法的默认参数
+export const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+/**
+ * SM-2 (SuperMemo 2) 调度器
+ */
+const sm2Scheduler: Scheduler = {
+  name: 'sm2',
+
+  createInitialState: () => ({
+    scheduler: 'sm2',
+    state: 'new',
+    step: 0,
+    repetitions: 0,
+    lapses: 0
+  }),
+
+  schedule: (card: CardSchedule, result: ReviewResult, now: number): CardSchedule => {
+    let newInterval = card.interval;
+    let newEaseFactor = card.easeFactor;
+    let repetitions = card.schedulerState.repetitions;
+
+    if (result.quality >= 3) {
+      // 回答正确
+      if (card.interval === 0) {
+        newInterval = 1;
+      } else if (card.interval === 1) {
+        newInterval = 6;
+      } else {
+        newInterval = Math.round(card.interval * newEaseFactor);
+      }
+      repetitions++;
+    } else {
+      // 回答错误，重置间隔
+      newInterval = 1;
+      repetitions = 0;
+    }
+
+    // 更新记忆因子，且不低于最小值
+    newEaseFactor = newEaseFactor + (0.1 - (5 - result.quality) * (0.08 + (5 - result.quality) * 0.02));
+    if (newEaseFactor < MIN_EASE_FACTOR) {
+      newEaseFactor = MIN_EASE_FACTOR;
+    }
+
+    return {
+      lastReviewedAt: now,
+      nextReviewAt: now + newInterval * DAY_MS,
+      interval: newInterval,
+      easeFactor: newEaseFactor,
+      schedulerState: {
+        ...card.schedulerState,
+        scheduler: 'sm2',
+        repetitions
+      }
+    };
+  },
+
+  // SM-2 没有记忆模型，以当前间隔作为稳定性，到期时的回忆概率约为 90%
+  retrievability: (card: CardSchedule, now: number): number => {
+    if (card.lastReviewedAt === 0) return 0;
+    const elapsedDays = Math.max(0, (now - card.lastReviewedAt) / DAY_MS);
+    return fsrsRetrievability(elapsedDays, Math.max(card.interval, 0.1));
+  }
+};
+
+// FSRS v4.5 默认权重
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+  0.0793, 0.3246, 1.587, 0.2272, 2.8755
+];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+const REQUEST_RETENTION = 0.9; // 目标记忆保持率
+const MAX_INTERVAL = 36500;
+
+type FsrsGrade = 1 | 2 | 3 | 4; // Again, Hard, Good, Easy
+
+/**
+ * 将 SM-2 的 0-5 质量评分映射为 FSRS 的四档评分
+ * 与 SM-2 一致，质量评分 < 3 视为遗忘
+ */
+function toFsrsGrade(quality: ReviewResult['quality']): FsrsGrade {
+  if (quality <= 2) return 1;
+  if (quality === 3) return 2;
+  if (quality === 4) return 3;
+  return 4;
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(10, Math.max(1, difficulty));
+}
+
+function initialStability(grade: FsrsGrade): number {
+  return Math.max(FSRS_WEIGHTS[grade - 1], 0.1);
+}
+
+function initialDifficulty(grade: FsrsGrade): number {
+  return clampDifficulty(FSRS_WEIGHTS[4] - (grade - 3) * FSRS_WEIGHTS[5]);
+}
+
+/**
+ * 计算经过 elapsedDays 天后的可提取性 (回忆概率)
+ */
+export function fsrsRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FSRS_FACTOR * elapsedDays) / stability, FSRS_DECAY);
+}
+
+function nextDifficulty(difficulty: number, grade: FsrsGrade): number {
+  const updated = difficulty - FSRS_WEIGHTS[6] * (grade - 3);
+  // 向初始难度均值回归
+  return clampDifficulty(FSRS_WEIGHTS[7] * initialDifficulty(3) + (1 - FSRS_WEIGHTS[7]) * updated);
+}
+
+function nextRecallStability(
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  grade: FsrsGrade
+): number {
+  const hardPenalty = grade === 2 ? FSRS_WEIGHTS[15] : 1;
+  const easyBonus = grade === 4 ? FSRS_WEIGHTS[16] : 1;
+  return (
+    stability *
+    (1 +
+      Math.exp(FSRS_WEIGHTS[8]) *
+        (11 - difficulty) *
+        Math.pow(stability, -FSRS_WEIGHTS[9]) *
+        (Math.exp((1 - retrievability) * FSRS_WEIGHTS[10]) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+function nextForgetStability(difficulty: number, stability: number, retrievability: number): number {
+  return (
+    FSRS_WEIGHTS[11] *
+    Math.pow(difficulty, -FSRS_WEIGHTS[12]) *
+    (Math.pow(stability + 1, FSRS_WEIGHTS[13]) - 1) *
+    Math.exp((1 - retrievability) * FSRS_WEIGHTS[14])
+  );
+}
+
+function intervalFromStability(stability: number): number {
+  const interval =
+    (stability / FSRS_FACTOR) * (Math.pow(REQUEST_RETENTION, 1 / FSRS_DECAY) - 1);
+  return Math.min(MAX_INTERVAL, Math.max(1, Math.round(interval)));
+}
+
+/**
+ * 由 SM-2 的记忆因子估算 FSRS 难度，用于迁移旧卡片
+ */
+function difficultyFromEaseFactor(easeFactor: number): number {
+  return clampDifficulty(5 + (DEFAULT_EASE_FACTOR - easeFactor) * 5);
+}
+
+/**
+ * FSRS (Free Spaced Repetition Scheduler) 调度器
+ * 基于记忆稳定性 (stability)、难度 (difficulty) 和可提取性 (retrievability)
+ */
+const fsrsScheduler: Scheduler = {
+  name: 'fsrs',
+
+  createInitialState: () => ({
+    scheduler: 'fsrs',
+    state: 'new',
+    step: 0,
+    repetitions: 0,
+    lapses: 0
+  }),
+
+  schedule: (card: CardSchedule, result: ReviewResult, now: number): CardSchedule => {
+    const grade = toFsrsGrade(result.quality);
+    const state = card.schedulerState;
+    let stability: number;
+    let difficulty: number;
+
+    if (card.lastReviewedAt === 0) {
+      // 首次复习
+      stability = initialStability(grade);
+      difficulty = initialDifficulty(grade);
+    } else {
+      // 没有 FSRS 状态的卡片（由 SM-2 切换而来）按现有间隔估算
+      const prevStability = state.stability ?? Math.max(card.interval, 0.1);
+      const prevDifficulty = state.difficulty ?? difficultyFromEaseFactor(card.easeFactor);
+      const elapsedDays = Math.max(0, (now - card.lastReviewedAt) / DAY_MS);
+      const retrievability = fsrsRetrievability(elapsedDays, prevStability);
+
+      difficulty = nextDifficulty(prevDifficulty, grade);
+      stability =
+        grade === 1
+          ? nextForgetStability(prevDifficulty, prevStability, retrievability)
+          : nextRecallStability(prevDifficulty, prevStability, retrievability, grade);
+    }
+
+    const interval = intervalFromStability(stability);
+
+    return {
+      lastReviewedAt: now,
+      nextReviewAt: now + interval * DAY_MS,
+      interval,
+      easeFactor: card.easeFactor,
+      schedulerState: {
+        ...state,
+        scheduler: 'fsrs',
+        repetitions: grade === 1 ? 0 : state.repetitions + 1,
+        stability,
+        difficulty
+      }
+    };
+  },
+
+  retrievability: (card: CardSchedule, now: number): number => {
+    if (card.lastReviewedAt === 0) return 0;
+    const stability = card.schedulerState.stability ?? Math.max(card.interval, 0.1);
+    const elapsedDays = Math.max(0, (now - card.lastReviewedAt) / DAY_MS);
+    return fsrsRetrievability(elapsedDays, stability);
+  }
+};
+
+// 已注册的调度器
+const SCHEDULERS: Record<SchedulerType, Scheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler
+};
+
+/**
+ * 获取指定类型的调度器，未知类型回退到 SM-2
+ */
+export function getScheduler(type: SchedulerType): Scheduler {
+  return SCHEDULERS[type] || SCHEDULERS.sm2;
+}
+
@@ -0,0 +1,100 @@
+import { ReviewResult } from '../types';
+
+/**
+ * 句子重组练习 - 打乱句子的词语，按顺序重新拼出原句
+ * 用最长公共子序列找出放错位置的词语，并据此给出评分
+ */
+
+export interface SentenceToken {
+  id: number; // 在原句中的位置
+  text: string;
+}
+
+export interface ReconstructionCheck {
+  misplaced: boolean[]; // 每个已放置的词语是否放错位置
+  errors: number; // 放错位置的词语数量
+  isCorrect: boolean; // 在允许的错误内
+  quality: ReviewResult['quality']; // 建议的复习评分
+}
+
+/**
+ * 按空白拆分句子，标点跟随前面的词语
+ */
+export function tokenizeSentence(sentence: string): string[] {
+  return sentence.trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * 打乱词语顺序，保证结果与原句顺序不同
+ * @param tokens 按原句顺序排列的词语
+ */
+export function shuffleTokens(tokens: string[]): SentenceToken[] {
+  const indexed = tokens.map((text, id) => ({ id, text }));
+  if (new Set(tokens).size < 2) return indexed;
+
+  let shuffled = indexed;
+  do {
+    shuffled = [...indexed];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+  } while (shuffled.every((token, index) => token.text === tokens[index]));
+
+  return shuffled;
+}
+
+function sameToken(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * 检查重组结果
+ * 不在最长公共子序列中的词语视为放错位置；重复的词语可以互换
+ * 全部正确为 Good (4)，少量错误为 Hard (3)，其余为 Forgot (1)
+ * @param placed 按用户放置顺序排列的词语
+ * @param expected 原句的词语
+ */
+export function checkReconstruction(placed: string[], expected: string[]): ReconstructionCheck {
+  const dp = Array.from({ length: placed.length + 1 }, () => new Array(expected.length + 1).fill(0));
+  for (let i = 1; i <= placed.length; i++) {
+    for (let j = 1; j <= expected.length; j++) {
+      dp[i][j] = sameToken(placed[i - 1], expected[j - 1])
+        ? dp[i - 1][j - 1] + 1
+        : Math.max(dp[i - 1][j], dp[i][j - 1]);
+    }
+  }
+
+  // 回溯标记属于公共子序列的词语
+  const misplaced = placed.map(() => true);
+  let i = placed.length;
+  let j = expected.length;
+  while (i > 0 && j > 0) {
+    if (sameToken(placed[i - 1], expected[j - 1])) {
+      misplaced[i - 1] = false;
+      i--;
+      j--;
+    } else if (dp[i - 1][j] >= dp[i][j - 1]) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  const errors = misplaced.filter(Boolean).length + Math.max(0, expected.length - placed.length);
+  const allowedErrors = Math.max(1, Math.floor(expected.length * 0.2));
+
+  let quality: ReviewResult['quality'] = 1;
+  if (errors === 0) {
+    quality = 4;
+  } else if (errors <= allowedErrors) {
+    quality = 3;
+  }
+
+  return {
+    misplaced,
+    errors,
+    isCorrect: errors <= allowedErrors,
+    quality
+  };
+}
@@ -0,0 +1,62 @@
+import { ReviewShortcutAction, ReviewShortcuts } from '../types';
+
+/**
+ * 复习快捷键 - 按键与快捷键字符串之间的转换
+ * 快捷键格式为 "Ctrl+Shift+Z"，Mac 上的 Command 键按 Ctrl 处理
+ */
+
+export const DEFAULT_REVIEW_SHORTCUTS: ReviewShortcuts = {
+  reveal: 'Space',
+  rate0: '0',
+  rate1: '1',
+  rate2: '2',
+  rate3: '3',
+  rate4: '4',
+  rate5: '5',
+  speak: 'R',
+  skip: 'S',
+  undo: 'Ctrl+Z',
+  suspend: 'Shift+S'
+};
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+type ShortcutEvent = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+/**
+ * 把按键事件转换为快捷键字符串
+ * 数字和符号已经包含 Shift 的效果，只有字母和功能键记录 Shift
+ * @returns 只按下修饰键时返回 null
+ */
+export function getShortcutFromEvent(event: ShortcutEvent): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  const isChar = event.key.length === 1;
+  const key = event.key === ' ' ? 'Space' : isChar ? event.key.toUpperCase() : event.key;
+  const parts: string[] = [];
+
+  if (event.ctrlKey || event.metaKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && (!isChar || /^\p{L}$/u.test(event.key))) parts.push('Shift');
+  parts.push(key);
+
+  return parts.join('+');
+}
+
+/**
+ * 按键事件是否触发快捷键，未设置的快捷键不会触发
+ */
+export function matchesShortcut(event: ShortcutEvent, shortcut: string): boolean {
+  return !!shortcut && getShortcutFromEvent(event) === shortcut;
+}
+
+/**
+ * 找出与其他操作使用相同按键的操作
+ */
+export function findShortcutConflicts(shortcuts: ReviewShortcuts): ReviewShortcutAction[] {
+  const actions = Object.keys(shortcuts) as ReviewShortcutAction[];
+  return actions.filter(action =>
+    !!shortcuts[action] &&
+    actions.some(other => other !== action && shortcuts[other] === shortcuts[action])
+  );
+}
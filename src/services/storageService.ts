@@ -1,4 +1,8 @@
-import { LearningItem, UserSettings, ChromeStorageData } from '../types';
+import { LearningItem, UserSettings, ChromeStorageData, ReviewLogEntry, ReviewSession } from '../types';
+import { migrateLearningItem } from './reviewEngine';
+import { DEFAULT_DAY_START_HOUR } from './dayBoundary';
+import { DEFAULT_REVIEW_SHORTCUTS } from './shortcuts';
+import { filterItemsByDeck, moveItemToDeck } from './decks';
 
 /**
  * 存储服务 - 管理本地存储和 Firebase 同步
@@ -6,7 +10,7 @@ import { LearningItem, UserSettings, ChromeStorageData } from '../types';
  */
 
 // 默认用户设置
-const DEFAULT_SETTINGS: UserSettings = {
+export const DEFAULT_SETTINGS: UserSettings = {
   aiProvider: 'openai',
   apiKeys: {
     openai: '',
@@ -17,7 +21,21 @@ const DEFAULT_SETTINGS: UserSettings = {
   },
   language: 'zh',
   dailyReviewLimit: 50,
-  enableNotifications: true
+  dailyNewLimit: 20,
+  dayStartHour: DEFAULT_DAY_START_HOUR,
+  enableNotifications: true,
+  scheduler: 'sm2',
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  leechThreshold: 8,
+  autoSuspendLeeches: false,
+  enableFuzz: true,
+  enableLoadBalancing: true,
+  enableReverseCards: false,
+  enableDictationCards: false,
+  reviewShortcuts: DEFAULT_REVIEW_SHORTCUTS,
+  burySiblings: true,
+  decks: []
 };
 
 // 存储键名
@@ -25,7 +43,9 @@ const STORAGE_KEYS = {
   LEARNING_ITEMS: 'learningItems',
   USER_SETTINGS: 'userSettings',
   LAST_SYNC_TIME: 'lastSyncTime',
-  PENDING_SYNC: 'pendingSync'
+  PENDING_SYNC: 'pendingSync',
+  REVIEW_LOG: 'reviewLog',
+  REVIEW_SESSIONS: 'reviewSessions'
 } as const;
 
 /**
@@ -34,7 +54,17 @@ const STORAGE_KEYS = {
 export async function getLearningItems(): Promise<LearningItem[]> {
   try {
     const result = await chrome.storage.local.get(STORAGE_KEYS.LEARNING_ITEMS);
-    return result[STORAGE_KEYS.LEARNING_ITEMS] || [];
+    const storedItems: LearningItem[] = result[STORAGE_KEYS.LEARNING_ITEMS] || [];
+    
+    // 数据迁移：为旧版本的项目补全调度器状态，修正 type 字段
+    const items = storedItems.map(migrateLearningItem);
+    if (items.some((item, index) => item !== storedItems[index])) {
+      await chrome.storage.local.set({
+        [STORAGE_KEYS.LEARNING_ITEMS]: items
+      });
+    }
+    
+    return items;
   } catch (error) {
     console.error('Failed to get learning items:', error);
     return [];
@@ -46,13 +76,14 @@ export async function getLearningItems(): Promise<LearningItem[]> {
  */
 export async function saveLearningItem(item: LearningItem): Promise<void> {
   try {
+    const updatedItem = { ...item, updatedAt: Date.now() };
     const items = await getLearningItems();
     const existingIndex = items.findIndex(i => i.id === item.id);
     
     if (existingIndex >= 0) {
-      items[existingIndex] = item;
+      items[existingIndex] = updatedItem;
     } else {
-      items.push(item);
+      items.push(updatedItem);
     }
     
     await chrome.storage.local.set({
@@ -60,7 +91,7 @@ export async function saveLearningItem(item: LearningItem): Promise<void> {
     });
     
     // 添加到待同步队列
-    await addToPendingSync(item);
+    await addToPendingSync(updatedItem);
   } catch (error) {
     console.error('Failed to save learning item:', error);
     throw error;
@@ -86,6 +117,40 @@ export async function saveLearningItems(items: LearningItem[]): Promise<void> {
   }
 }
 
+/**
+ * 批量修改学习项目，只有发生变化的项目加入待同步队列
+ * @param itemIds 要修改的项目 ID
+ * @param update 返回修改后的项目，没有变化时返回原对象
+ */
+export async function updateLearningItems(
+  itemIds: string[],
+  update: (item: LearningItem) => LearningItem
+): Promise<void> {
+  try {
+    const ids = new Set(itemIds);
+    const items = await getLearningItems();
+    const now = Date.now();
+    const updatedItems = items.map(item => {
+      if (!ids.has(item.id)) return item;
+      const updated = update(item);
+      return updated === item ? item : { ...updated, updatedAt: now };
+    });
+    const changedItems = updatedItems.filter((item, index) => item !== items[index]);
+    if (changedItems.length === 0) return;
+
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.LEARNING_ITEMS]: updatedItems
+    });
+
+    for (const item of changedItems) {
+      await addToPendingSync(item);
+    }
+  } catch (error) {
+    console.error('Failed to update learning items:', error);
+    throw error;
+  }
+}
+
 /**
  * 删除学习项目
  */
@@ -103,6 +168,112 @@ export async function deleteLearningItem(itemId: string): Promise<void> {
   }
 }
 
+/**
+ * 获取复习记录
+ */
+export async function getReviewLog(): Promise<ReviewLogEntry[]> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.REVIEW_LOG);
+    return result[STORAGE_KEYS.REVIEW_LOG] || [];
+  } catch (error) {
+    console.error('Failed to get review log:', error);
+    return [];
+  }
+}
+
+/**
+ * 追加复习记录
+ */
+export async function appendReviewLog(entry: ReviewLogEntry): Promise<void> {
+  try {
+    const reviewLog = await getReviewLog();
+    reviewLog.push(entry);
+    
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.REVIEW_LOG]: reviewLog
+    });
+  } catch (error) {
+    console.error('Failed to append review log:', error);
+    throw error;
+  }
+}
+
+/**
+ * 保存一次复习：更新后的学习项目和复习记录在同一次写入中保存，
+ * 避免只保存了新的调度状态却没有可以撤销的复习记录
+ * @param updatedItems 复习的项目以及被搁置的兄弟项目
+ * @param entry 复习记录
+ */
+export async function saveReviewResult(updatedItems: LearningItem[], entry: ReviewLogEntry): Promise<void> {
+  try {
+    const [items, reviewLog] = await Promise.all([getLearningItems(), getReviewLog()]);
+    const savedItems = updatedItems.map(item => ({ ...item, updatedAt: entry.reviewedAt }));
+    const updates = new Map(savedItems.map(item => [item.id, item]));
+
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.LEARNING_ITEMS]: items.map(item => updates.get(item.id) ?? item),
+      [STORAGE_KEYS.REVIEW_LOG]: [...reviewLog, entry]
+    });
+
+    for (const item of savedItems) {
+      await addToPendingSync(item);
+    }
+  } catch (error) {
+    console.error('Failed to save review result:', error);
+    throw error;
+  }
+}
+
+/**
+ * 获取复习会话统计
+ */
+export async function getReviewSessions(): Promise<ReviewSession[]> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.REVIEW_SESSIONS);
+    return result[STORAGE_KEYS.REVIEW_SESSIONS] || [];
+  } catch (error) {
+    console.error('Failed to get review sessions:', error);
+    return [];
+  }
+}
+
+/**
+ * 保存一次复习会话的统计
+ */
+export async function appendReviewSession(session: ReviewSession): Promise<void> {
+  try {
+    const sessions = await getReviewSessions();
+    sessions.push(session);
+    
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.REVIEW_SESSIONS]: sessions
+    });
+  } catch (error) {
+    console.error('Failed to append review session:', error);
+    throw error;
+  }
+}
+
+/**
+ * 删除一条复习记录（撤销复习时使用）
+ * @returns 被删除的记录，不存在时返回 undefined
+ */
+export async function removeReviewLogEntry(entryId: string): Promise<ReviewLogEntry | undefined> {
+  try {
+    const reviewLog = await getReviewLog();
+    const entry = reviewLog.find(e => e.id === entryId);
+    if (!entry) return undefined;
+    
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.REVIEW_LOG]: reviewLog.filter(e => e.id !== entryId)
+    });
+    return entry;
+  } catch (error) {
+    console.error('Failed to remove review log entry:', error);
+    throw error;
+  }
+}
+
 /**
  * 获取用户设置
  */
@@ -140,7 +311,12 @@ export async function getUserSettings(): Promise<UserSettings> {
       return migratedSettings;
     }
     
-    return { ...DEFAULT_SETTINGS, ...storedSettings };
+    // 合并快捷键，新增的操作使用默认按键
+    return {
+      ...DEFAULT_SETTINGS,
+      ...storedSettings,
+      reviewShortcuts: { ...DEFAULT_REVIEW_SHORTCUTS, ...storedSettings?.reviewShortcuts }
+    };
   } catch (error) {
     console.error('Failed to get user settings:', error);
     return DEFAULT_SETTINGS;
@@ -164,6 +340,23 @@ export async function saveUserSettings(settings: Partial<UserSettings>): Promise
   }
 }
 
+/**
+ * 删除牌组，其中的项目移出牌组并保留复习进度
+ */
+export async function deleteDeck(deckId: string): Promise<void> {
+  try {
+    const [settings, items] = await Promise.all([getUserSettings(), getLearningItems()]);
+    await saveUserSettings({ decks: settings.decks.filter(deck => deck.id !== deckId) });
+    await updateLearningItems(
+      filterItemsByDeck(items, deckId).map(item => item.id),
+      item => moveItemToDeck(item, undefined)
+    );
+  } catch (error) {
+    console.error('Failed to delete deck:', error);
+    throw error;
+  }
+}
+
 /**
  * 获取待同步的项目
  */
@@ -271,18 +464,22 @@ export async function clearAllData(): Promise<void> {
  */
 export async function exportData(): Promise<ChromeStorageData> {
   try {
-    const [items, settings, lastSync, pending] = await Promise.all([
+    const [items, settings, lastSync, pending, reviewLog, reviewSessions] = await Promise.all([
       getLearningItems(),
       getUserSettings(),
       getLastSyncTime(),
-      getPendingSyncItems()
+      getPendingSyncItems(),
+      getReviewLog(),
+      getReviewSessions()
     ]);
     
     return {
       learningItems: items,
       userSettings: settings,
       lastSyncTime: lastSync,
-      pendingSync: pending
+      pendingSync: pending,
+      reviewLog,
+      reviewSessions
     };
   } catch (error) {
     console.error('Failed to export data:', error);
@@ -299,7 +496,9 @@ export async function importData(data: ChromeStorageData): Promise<void> {
       [STORAGE_KEYS.LEARNING_ITEMS]: data.learningItems,
       [STORAGE_KEYS.USER_SETTINGS]: data.userSettings,
       [STORAGE_KEYS.LAST_SYNC_TIME]: data.lastSyncTime,
-      [STORAGE_KEYS.PENDING_SYNC]: data.pendingSync
+      [STORAGE_KEYS.PENDING_SYNC]: data.pendingSync,
+      [STORAGE_KEYS.REVIEW_LOG]: data.reviewLog || [],
+      [STORAGE_KEYS.REVIEW_SESSIONS]: data.reviewSessions || []
     });
   } catch (error) {
     console.error('Failed to import data:', error);
@@ -1,8 +1,13 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { LearningItem, ReviewStats, SyncStatus } from '../types';
-import { getLearningItems } from '../services/storageService';
-import { getReviewStats, getTodayReviewItems } from '../services/reviewEngine';
+import { LearningItem, ReviewCard, ReviewLogEntry, ReviewStats, SyncStatus, UserSettings } from '../types';
+import { getLearningItems, getReviewLog, getUserSettings } from '../services/storageService';
+import {
+  getReviewStats,
+  buildReviewQueue,
+  calculateProgress,
+  getStudyStreak
+} from '../services/reviewEngine';
 import { getSyncStatus, isFirebaseConnected } from '../services/firebaseService';
 
 /**
@@ -12,7 +17,9 @@ import { getSyncStatus, isFirebaseConnected } from '../services/firebaseService'
 interface AppState {
   // 数据状态
   learningItems: LearningItem[];
-  reviewQueue: LearningItem[];
+  reviewLog: ReviewLogEntry[];
+  userSettings: UserSettings | null;
+  reviewQueue: ReviewCard[];
   reviewStats: ReviewStats;
   syncStatus: SyncStatus;
   
@@ -39,6 +46,8 @@ export const useAppStore = create<AppState>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
     learningItems: [],
+    reviewLog: [],
+    userSettings: null,
     reviewQueue: [],
     reviewStats: {
       todayReviews: 0,
@@ -81,8 +90,12 @@ export const useAppStore = create<AppState>()(
 
     loadLearningItems: async () => {
       try {
-        const items = await getLearningItems();
-        set({ learningItems: items });
+        const [items, reviewLog, userSettings] = await Promise.all([
+          getLearningItems(),
+          getReviewLog(),
+          getUserSettings()
+        ]);
+        set({ learningItems: items, reviewLog, userSettings });
         
         // 自动刷新相关数据
         const { refreshReviewQueue, refreshStats } = get();
@@ -130,49 +143,24 @@ export const useAppStore = create<AppState>()(
     },
 
     refreshReviewQueue: () => {
-      const { learningItems } = get();
-      const reviewQueue = getTodayReviewItems(learningItems);
+      const { learningItems, reviewLog, userSettings } = get();
+      const reviewQueue = userSettings ? buildReviewQueue(learningItems, reviewLog, userSettings) : [];
       set({ reviewQueue });
     },
 
     refreshStats: () => {
-      const { learningItems } = get();
-      const stats = getReviewStats(learningItems);
-      
-      // 计算学习进度和连续天数
-      const reviewedItems = learningItems.filter(item => item.lastReviewedAt > 0).length;
-      const progress = learningItems.length > 0 ? Math.round((reviewedItems / learningItems.length) * 100) : 0;
-      
-      // 计算连续学习天数
-      const reviewDates = learningItems
-        .filter(item => item.lastReviewedAt > 0)
-        .map(item => new Date(item.lastReviewedAt).toDateString())
-        .sort()
-        .filter((date, index, arr) => arr.indexOf(date) === index);
-
-      let studyStreak = 0;
-      const today = new Date().toDateString();
-      
-      if (reviewDates.length > 0 && reviewDates[reviewDates.length - 1] === today) {
-        studyStreak = 1;
-        for (let i = reviewDates.length - 2; i >= 0; i--) {
-          const currentDate = new Date(reviewDates[i + 1]);
-          const prevDate = new Date(reviewDates[i]);
-          const diffTime = currentDate.getTime() - prevDate.getTime();
-          const diffDays = diffTime / (1000 * 60 * 60 * 24);
-          
-          if (diffDays === 1) {
-            studyStreak++;
-          } else {
-            break;
-          }
-        }
-      }
+      const { learningItems, reviewLog, userSettings } = get();
+      const stats = getReviewStats(
+        learningItems,
+        reviewLog,
+        userSettings?.dayStartHour,
+        userSettings ?? undefined
+      );
 
       const reviewStats: ReviewStats = {
         ...stats,
-        progress,
-        studyStreak
+        progress: calculateProgress(learningItems),
+        studyStreak: getStudyStreak(reviewLog, userSettings?.dayStartHour)
       };
       
       set({ reviewStats });
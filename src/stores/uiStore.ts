@@ -11,6 +11,9 @@ interface UIStore extends UIState {
   setCurrentPage: (page: UIState['currentPage']) => void;
   setSelectedItem: (item: UIState['selectedItem']) => void;
   setReviewQueue: (queue: UIState['reviewQueue']) => void;
+  setReviewMode: (mode: UIState['reviewMode']) => void;
+  setCramOptions: (options: UIState['cramOptions']) => void;
+  setCurrentDeckId: (deckId: UIState['currentDeckId']) => void;
   
   // Computed
   hasReviewItems: () => boolean;
@@ -22,12 +25,18 @@ export const useUIStore = create<UIStore>((set, get) => ({
   currentPage: 'home',
   selectedItem: null,
   reviewQueue: [],
+  reviewMode: 'flashcard',
+  cramOptions: null,
+  currentDeckId: null,
   
   // Actions
   setLoading: (loading) => set({ isLoading: loading }),
   setCurrentPage: (page) => set({ currentPage: page }),
   setSelectedItem: (item) => set({ selectedItem: item }),
   setReviewQueue: (queue) => set({ reviewQueue: queue }),
+  setReviewMode: (mode) => set({ reviewMode: mode }),
+  setCramOptions: (options) => set({ cramOptions: options }),
+  setCurrentDeckId: (deckId) => set({ currentDeckId: deckId }),
   
   // Computed
   hasReviewItems: () => get().reviewQueue.length > 0,
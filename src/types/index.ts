@@ -5,17 +5,92 @@ export interface LearningItem {
   type: 'word' | 'sentence';
   content: string; // 单词或句子本身
   translation: string; // AI 生成的翻译/解释
+  wordType?: string; // 词性，如 名词、动词（仅单词）
+  pronunciation?: string; // 音标
+  explanation?: string; // AI 生成的释义和用法说明
   context?: string; // 来源句或上下文
   sourceUrl?: string; // 来源页面URL
   sourceTitle?: string; // 来源页面标题
+  encounters?: ItemEncounter[]; // 所有遇到该项目的句子和来源，最早的在前
+  notes?: string; // 用户自己的笔记
   createdAt: number; // Timestamp
+  updatedAt?: number; // Timestamp, 最后一次修改的时间，用于同步时合并
   lastReviewedAt: number; // Timestamp
   nextReviewAt: number; // Timestamp, 核心字段，用于查询今天要复习的项目
   interval: number; // 复习间隔天数
   easeFactor: number; // 记忆因子 (e.g., SM-2算法中的E-Factor)
+  schedulerState: SchedulerState; // 调度器的单卡状态
+  tags?: string[]; // 标签，保存时或在单词列表中添加，leech 标签自动添加
+  deckId?: string; // 所属牌组，未设置时只使用全局设置
+  isSuspended?: boolean; // 暂停后不再进入复习，直到取消暂停
+  buriedUntil?: number; // Timestamp, 搁置到该时间（下一个学习日）之前不再进入复习
+  examples?: string[]; // AI 生成的例句，也用于没有上下文时的完形填空
+  aiProvider?: UserSettings['aiProvider']; // 生成翻译和说明的 AI 提供商
+  aiModel?: string; // 生成翻译和说明的模型
+  reverseEnabled?: boolean; // 是否生成反向卡片，未设置时跟随全局设置
+  dictationEnabled?: boolean; // 是否生成听写卡片，未设置时跟随全局设置
+  variants?: Partial<Record<Exclude<CardVariant, 'forward'>, CardSchedule>>; // 正向以外卡片各自的调度状态
   userId: string; // 关联的 Firebase User ID
 }
 
+// 在网页中遇到学习项目的一次记录
+export interface ItemEncounter {
+  context?: string; // 遇到时所在的句子
+  sourceUrl?: string;
+  sourceTitle?: string;
+  encounteredAt: number; // Timestamp
+}
+
+// 保存时随翻译一起记录的 AI 详细信息
+export type LearningItemDetails = Pick<
+  LearningItem,
+  'wordType' | 'pronunciation' | 'explanation' | 'examples' | 'aiProvider' | 'aiModel'
+>;
+
+// 卡片类型：正向（原文 → 翻译）/ 反向（翻译 → 原文）/ 听写（听发音 → 原文）
+// 正向卡片的调度状态直接保存在 LearningItem 上
+export type CardVariant = 'forward' | 'reverse' | 'dictation';
+
+// 决定默认生成哪些卡片的全局设置
+export type CardVariantSettings = Pick<UserSettings, 'enableReverseCards' | 'enableDictationCards'>;
+
+// 复习队列中的一张卡片
+export interface ReviewCard {
+  item: LearningItem;
+  variant: CardVariant;
+}
+
+// 复习调度算法
+export type SchedulerType = 'sm2' | 'fsrs';
+
+// 卡片所处的学习阶段
+export type CardState = 'new' | 'learning' | 'review' | 'relearning';
+
+// 调度器的单卡状态
+export interface SchedulerState {
+  scheduler: SchedulerType; // 最近一次调度该卡片的算法
+  state: CardState; // 学习阶段
+  step: number; // 当前所在的学习步骤（learning / relearning 阶段）
+  repetitions: number; // 连续答对次数
+  lapses: number; // 复习阶段遗忘的次数
+  stability?: number; // FSRS 记忆稳定性（天）
+  difficulty?: number; // FSRS 难度 (1-10)
+}
+
+// 调度器读写的卡片字段
+export type CardSchedule = Pick<
+  LearningItem,
+  'lastReviewedAt' | 'nextReviewAt' | 'interval' | 'easeFactor' | 'schedulerState'
+>;
+
+// 复习调度器接口
+export interface Scheduler {
+  name: SchedulerType;
+  createInitialState: () => SchedulerState;
+  schedule: (card: CardSchedule, result: ReviewResult, now: number) => CardSchedule;
+  retrievability: (card: CardSchedule, now: number) => number; // 当前的回忆概率 (0-1)
+}
+
 export interface UserSettings {
   aiProvider: 'openai' | 'deepseek' | 'gemini' | 'qwen' | 'qwen-plus';
   apiKeys: {
@@ -26,15 +101,120 @@ export interface UserSettings {
     'qwen-plus': string;
   };
   language: 'zh' | 'en';
-  dailyReviewLimit: number;
+  dailyReviewLimit: number; // 每日复习卡片上限
+  dailyNewLimit: number; // 每日新卡片上限
+  dayStartHour: number; // 每个学习日开始的小时 (0-23)
   enableNotifications: boolean;
+  scheduler: SchedulerType; // 复习调度算法
+  learningSteps: number[]; // 新卡片的学习步骤（分钟）
+  relearningSteps: number[]; // 遗忘卡片的重学步骤（分钟）
+  leechThreshold: number; // 遗忘多少次后标记为 leech
+  autoSuspendLeeches: boolean; // 是否自动暂停 leech 卡片
+  enableFuzz: boolean; // 是否对复习间隔做随机浮动
+  enableLoadBalancing: boolean; // 是否在浮动范围内平衡每日复习量
+  enableReverseCards: boolean; // 是否默认为每个项目生成反向卡片
+  enableDictationCards: boolean; // 是否默认为每个项目生成听写卡片
+  reviewShortcuts: ReviewShortcuts; // 复习页面的快捷键
+  burySiblings: boolean; // 复习后是否搁置同一上下文的兄弟项目到下一个学习日
+  decks: Deck[]; // 用户创建的牌组
+}
+
+// 牌组可以单独设置的调度参数和每日上限，未设置的沿用全局设置
+export type DeckSettings = Partial<
+  Pick<UserSettings, 'scheduler' | 'learningSteps' | 'relearningSteps' | 'dailyReviewLimit' | 'dailyNewLimit'>
+>;
+
+// 命名的牌组
+export interface Deck {
+  id: string;
+  name: string;
+  createdAt: number; // Timestamp
+  settings: DeckSettings;
 }
 
+// 复习页面可设置快捷键的操作，rate0 - rate5 对应各个评分
+export type ReviewShortcutAction =
+  | 'reveal'
+  | 'rate0'
+  | 'rate1'
+  | 'rate2'
+  | 'rate3'
+  | 'rate4'
+  | 'rate5'
+  | 'speak'
+  | 'skip'
+  | 'undo'
+  | 'suspend';
+
+// 操作对应的按键，格式如 "Space"、"R"、"Ctrl+Z"
+export type ReviewShortcuts = Record<ReviewShortcutAction, string>;
+
 export interface ReviewResult {
   quality: 0 | 1 | 2 | 3 | 4 | 5; // SM-2 算法中的质量评分
   // 0: 完全不记得, 1: 错误答案, 2: 错误但记得, 3: 困难但正确, 4: 犹豫但正确, 5: 完美记忆
 }
 
+// 学习项目的复习状态操作
+export type ItemStatusAction =
+  | 'suspend'
+  | 'unsuspend'
+  | 'bury'
+  | 'unbury'
+  | 'enableReverse'
+  | 'disableReverse'
+  | 'enableDictation'
+  | 'disableDictation';
+
+// 复习记录，只追加不修改
+export interface ReviewLogEntry {
+  id: string;
+  itemId: string;
+  reviewedAt: number; // Timestamp
+  quality: ReviewResult['quality'];
+  cardState: CardState; // 复习前卡片所处的学习阶段
+  variant?: CardVariant; // 卡片类型，旧记录没有该字段，视为正向
+  timeTaken: number; // 卡片停留时间（毫秒）
+  isCram?: boolean; // 突击复习中不改变调度状态的评分，不计入每日上限
+  buriedItemIds?: string[]; // 本次复习同时搁置的兄弟项目，撤销时恢复
+  previousInterval: number;
+  newInterval: number;
+  previousEaseFactor: number;
+  newEaseFactor: number;
+  scheduler: SchedulerType; // 本次使用的调度算法
+}
+
+// 一次复习会话的统计，会话结束时保存
+export interface ReviewSession {
+  id: string;
+  startedAt: number; // Timestamp
+  endedAt: number; // Timestamp
+  reviewMode: ReviewMode;
+  reviewCount: number; // 评分次数，学习步骤中的重复也计入
+  cardCount: number; // 复习的卡片数
+  newCount: number; // 其中首次学习的卡片数
+  ratingCounts: number[]; // 各评分 (0-5) 的次数
+  correctCount: number; // 评分 >= 3 的次数
+  totalTime: number; // 答题总用时（毫秒）
+  hardestItemIds: string[]; // 本次最困难的项目，最难的在前
+}
+
+// 按学习日汇总的复习会话
+export interface ReviewSessionDay {
+  date: string; // 学习日 YYYY-MM-DD
+  sessionCount: number;
+  reviewCount: number;
+  correctCount: number;
+  totalTime: number; // 答题总用时（毫秒）
+}
+
+// 复习负载预测，每个学习日一条
+export interface ReviewForecastDay {
+  date: string; // 学习日标识 YYYY-MM-DD
+  dueCount: number; // 到期的复习卡片数量
+  newCount: number; // 按每日上限引入的新卡片数量
+  expectedRetention: number; // 已学卡片的平均回忆概率 (0-1)，没有已学卡片时为 0
+}
+
 export interface AITranslationRequest {
   text: string;
   context?: string;
@@ -70,14 +250,37 @@ export interface ChromeStorageData {
   userSettings: UserSettings;
   lastSyncTime: number;
   pendingSync: LearningItem[]; // 待同步到 Firebase 的项目
+  reviewLog: ReviewLogEntry[]; // 复习记录
+  reviewSessions?: ReviewSession[]; // 复习会话统计
 }
 
+// 自定义学习的筛选条件，未设置的条件不筛选
+export interface CustomStudyFilter {
+  deckId?: string;
+  tag?: string;
+  sourceUrl?: string;
+  addedWithinDays?: number; // 最近几个学习日内添加，包含今天
+  type?: LearningItem['type'];
+  leechOnly?: boolean;
+}
+
+// 突击复习选项
+export interface CramOptions {
+  reschedule: boolean; // 是否用本次评分更新调度状态
+}
+
+// 复习方式：翻卡自评 / 看翻译拼写原文 / 在句中填空 / 四选一 / 重组句子
+export type ReviewMode = 'flashcard' | 'typing' | 'cloze' | 'choice' | 'reconstruct';
+
 // UI 状态类型
 export interface UIState {
   isLoading: boolean;
-  currentPage: 'home' | 'review' | 'settings' | 'wordList';
+  currentPage: 'home' | 'review' | 'settings' | 'wordList' | 'customStudy' | 'itemDetail';
   selectedItem: LearningItem | null;
-  reviewQueue: LearningItem[];
+  reviewQueue: ReviewCard[];
+  reviewMode: ReviewMode;
+  cramOptions: CramOptions | null; // 当前复习队列是突击复习时的选项
+  currentDeckId: string | null; // 首页选中的牌组，为空时显示全部
 }
 
 // Chrome 消息类型